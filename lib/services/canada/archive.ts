@@ -0,0 +1,238 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { readBodyWithLimit } from './body';
+
+// Record/replay of the crawler's HTTP traffic. In `record` mode every response
+// (status, headers, decoded body) is written as a WARC-style response record, one
+// file per requested URL, and a request that failed as a metadata record of its error.
+// Bodies over MAX_ARCHIVED_BYTES are stored truncated. In `replay` mode fetches are
+// served from those files and never reach the network, so a run can be repeated
+// against a frozen snapshot.
+
+export type CanadaFetch = typeof fetch;
+
+export type HttpArchiveMode = 'record' | 'replay';
+export type HttpArchiveOptions = { mode: HttpArchiveMode; dir: string };
+
+export type ArchivedResponse = {
+  url: string;
+  finalUrl: string;
+  status: number;
+  statusText: string;
+  headers: Array<[string, string]>;
+  body: Buffer;
+  // The body was over MAX_ARCHIVED_BYTES and was not kept.
+  truncated: boolean;
+  date: string;
+};
+
+// A request that threw instead of returning a response: DNS, connection or timeout.
+export type ArchivedFailure = {
+  url: string;
+  error: { name: string; message: string; code: string | null };
+  date: string;
+};
+
+const DEFAULT_ARCHIVE_DIR = '.canada-http-archive';
+// The body is stored decoded, so these no longer describe it.
+const DROPPED_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding', 'connection']);
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+// Above every cap the client reads with (sitemaps allow the most), so whatever a
+// caller would accept is archived whole.
+const MAX_ARCHIVED_BYTES = 10_000_000;
+
+// CANADA_HTTP_ARCHIVE=record|replay turns the archive on for every CanadaHttpClient;
+// CANADA_HTTP_ARCHIVE_DIR overrides where it lives.
+export function httpArchiveFromEnv(): HttpArchiveOptions | null {
+  const mode = process.env.CANADA_HTTP_ARCHIVE;
+  if (mode !== 'record' && mode !== 'replay') return null;
+  return { mode, dir: process.env.CANADA_HTTP_ARCHIVE_DIR || path.join(process.cwd(), DEFAULT_ARCHIVE_DIR) };
+}
+
+export function archiveFileFor(dir: string, url: string) {
+  return path.join(dir, `${crypto.createHash('sha256').update(url).digest('hex').slice(0, 32)}.warc`);
+}
+
+export function serializeWarcRecord(record: ArchivedResponse) {
+  const httpHead = [
+    `HTTP/1.1 ${record.status} ${record.statusText}`.trimEnd(),
+    ...record.headers.map(([k, v]) => `${k}: ${v}`),
+    '',
+    '',
+  ].join('\r\n');
+  const block = Buffer.concat([Buffer.from(httpHead, 'utf8'), record.body]);
+
+  const warcHead = [
+    'WARC/1.1',
+    'WARC-Type: response',
+    `WARC-Record-ID: <urn:uuid:${crypto.randomUUID()}>`,
+    `WARC-Date: ${record.date}`,
+    `WARC-Target-URI: ${record.url}`,
+    // Not standard WARC: where redirects ended, which the crawler uses as the page URL.
+    `WARC-Final-URI: ${record.finalUrl}`,
+    ...(record.truncated ? ['WARC-Truncated: length'] : []),
+    'Content-Type: application/http; msgtype=response',
+    `Content-Length: ${block.byteLength}`,
+    '',
+    '',
+  ].join('\r\n');
+
+  return Buffer.concat([Buffer.from(warcHead, 'utf8'), block, Buffer.from('\r\n\r\n', 'utf8')]);
+}
+
+export function serializeWarcFailure(record: ArchivedFailure) {
+  const block = Buffer.from(JSON.stringify({ error: record.error }), 'utf8');
+  const warcHead = [
+    'WARC/1.1',
+    'WARC-Type: metadata',
+    `WARC-Record-ID: <urn:uuid:${crypto.randomUUID()}>`,
+    `WARC-Date: ${record.date}`,
+    `WARC-Target-URI: ${record.url}`,
+    'Content-Type: application/json',
+    `Content-Length: ${block.byteLength}`,
+    '',
+    '',
+  ].join('\r\n');
+
+  return Buffer.concat([Buffer.from(warcHead, 'utf8'), block, Buffer.from('\r\n\r\n', 'utf8')]);
+}
+
+function splitHead(bytes: Buffer, from: number) {
+  const end = bytes.indexOf('\r\n\r\n', from);
+  if (end < 0) throw new Error('Malformed archive record: missing header terminator');
+  return { lines: bytes.subarray(from, end).toString('utf8').split('\r\n'), bodyStart: end + 4 };
+}
+
+function headerPairs(lines: string[]) {
+  return lines.flatMap((line): Array<[string, string]> => {
+    const i = line.indexOf(':');
+    return i > 0 ? [[line.slice(0, i).trim(), line.slice(i + 1).trim()]] : [];
+  });
+}
+
+export function parseWarcRecord(bytes: Buffer): ArchivedResponse | ArchivedFailure {
+  const warc = splitHead(bytes, 0);
+  const warcHeaders = new Map(headerPairs(warc.lines.slice(1)).map(([k, v]) => [k.toLowerCase(), v]));
+  const length = Number(warcHeaders.get('content-length'));
+  if (!Number.isFinite(length)) throw new Error('Malformed archive record: missing Content-Length');
+  const block = bytes.subarray(warc.bodyStart, warc.bodyStart + length);
+
+  if (warcHeaders.get('warc-type') === 'metadata') {
+    const { error } = JSON.parse(block.toString('utf8')) as Pick<ArchivedFailure, 'error'>;
+    return { url: warcHeaders.get('warc-target-uri') ?? '', error, date: warcHeaders.get('warc-date') ?? '' };
+  }
+
+  const http = splitHead(block, 0);
+  const statusLine = http.lines[0].match(/^HTTP\/\d(?:\.\d)?\s+(\d{3})\s*(.*)$/);
+  if (!statusLine) throw new Error('Malformed archive record: bad status line');
+
+  const url = warcHeaders.get('warc-target-uri') ?? '';
+  return {
+    url,
+    finalUrl: warcHeaders.get('warc-final-uri') ?? url,
+    status: Number(statusLine[1]),
+    statusText: statusLine[2],
+    headers: headerPairs(http.lines.slice(1)),
+    body: Buffer.from(block.subarray(http.bodyStart)),
+    truncated: warcHeaders.has('warc-truncated'),
+    date: warcHeaders.get('warc-date') ?? '',
+  };
+}
+
+function toResponse(record: Pick<ArchivedResponse, 'finalUrl' | 'status' | 'statusText' | 'headers' | 'body'>) {
+  const res = new Response(NULL_BODY_STATUSES.has(record.status) ? null : new Uint8Array(record.body), {
+    status: record.status,
+    statusText: record.statusText,
+    headers: record.headers,
+  });
+  // Constructed responses have an empty url; the client reads it to follow redirects.
+  Object.defineProperty(res, 'url', { value: record.finalUrl });
+  return res;
+}
+
+// Rebuilt with what the client looks at: the name (AbortError is a timeout) and the
+// cause's code (which network errors are retried).
+function failureError(record: ArchivedFailure) {
+  const { name, message, code } = record.error;
+  return Object.assign(new Error(message), { name, cause: code ? { code } : undefined });
+}
+
+function requestUrl(input: Parameters<CanadaFetch>[0]) {
+  if (typeof input === 'string') return input;
+  return input instanceof URL ? input.toString() : input.url;
+}
+
+// Served like the origin would: a conditional request matching the recorded
+// validators gets a 304.
+function notModified(record: ArchivedResponse, headers: Headers) {
+  const recorded = new Headers(record.headers);
+  const etag = recorded.get('etag');
+  const lastModified = recorded.get('last-modified');
+  return (
+    (etag !== null && headers.get('if-none-match') === etag) ||
+    (lastModified !== null && headers.get('if-modified-since') === lastModified)
+  );
+}
+
+export function createArchiveFetch(options: HttpArchiveOptions, upstream: CanadaFetch = fetch): CanadaFetch {
+  if (options.mode === 'replay') {
+    return async (input, init) => {
+      const url = requestUrl(input);
+      const file = archiveFileFor(options.dir, url);
+      if (!fs.existsSync(file)) throw new Error(`Not in HTTP archive: ${url}`);
+
+      const record = parseWarcRecord(await fs.promises.readFile(file));
+      if ('error' in record) throw failureError(record);
+      if (notModified(record, new Headers(init?.headers))) {
+        return toResponse({ ...record, status: 304, statusText: 'Not Modified', body: Buffer.alloc(0) });
+      }
+      return toResponse(record);
+    };
+  }
+
+  return async (input, init) => {
+    const url = requestUrl(input);
+    // Always record full bodies, so replay works whatever validators the caller has stored.
+    const headers = new Headers(init?.headers);
+    headers.delete('if-none-match');
+    headers.delete('if-modified-since');
+
+    let res: Response;
+    let body: Awaited<ReturnType<typeof readBodyWithLimit>>;
+    try {
+      res = await upstream(input, { ...init, headers });
+      body = await readBodyWithLimit(res, MAX_ARCHIVED_BYTES);
+    } catch (e) {
+      const error = e instanceof Error ? e : new Error(String(e));
+      const code = (error as Error & { cause?: { code?: unknown } }).cause?.code;
+      const failure: ArchivedFailure = {
+        url,
+        error: { name: error.name, message: error.message, code: typeof code === 'string' ? code : null },
+        date: new Date().toISOString(),
+      };
+      await fs.promises.mkdir(options.dir, { recursive: true });
+      await fs.promises.writeFile(archiveFileFor(options.dir, url), serializeWarcFailure(failure));
+      throw e;
+    }
+    const kept = Array.from(res.headers.entries()).filter(([k]) => !DROPPED_HEADERS.has(k.toLowerCase()));
+    const record: ArchivedResponse = {
+      url,
+      finalUrl: res.url || url,
+      status: res.status,
+      statusText: res.statusText,
+      // A truncated body keeps its size, so the client's own cap rejects it on replay too.
+      headers: body.exceeded ? [...kept, ['content-length', String(body.byteLength)]] : kept,
+      body: Buffer.from(body.bytes),
+      truncated: body.exceeded,
+      date: new Date().toISOString(),
+    };
+
+    await fs.promises.mkdir(options.dir, { recursive: true });
+    await fs.promises.writeFile(archiveFileFor(options.dir, url), serializeWarcRecord(record));
+    if (notModified(record, new Headers(init?.headers))) {
+      return toResponse({ ...record, status: 304, statusText: 'Not Modified', body: Buffer.alloc(0) });
+    }
+    return toResponse(record);
+  };
+}
@@ -0,0 +1,189 @@
+import { canadaSupabase } from './db';
+import { lookupInstitution } from './institutions';
+import { rescoreFactors, type ConfidenceFactor } from './confidence';
+import { canadaUrlKey } from './canonical';
+
+const PAGE_SIZE = 500;
+
+// Re-derives institution, province and city from the registry for existing rows.
+// Province and city already on a row (e.g. from structured data) are kept.
+export async function runCanadaInstitutionBackfill(args?: { dryRun?: boolean }) {
+  const supabase = canadaSupabase();
+  const summary = { scanned: 0, matched: 0, updated: 0, unmatchedHosts: [] as string[] };
+  const unmatched = new Set<string>();
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('canada_opportunity')
+      .select('id,canonical_url,institution_name,province,city')
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(error.message);
+    const rows = data ?? [];
+
+    for (const row of rows) {
+      summary.scanned += 1;
+      const match = lookupInstitution(row.canonical_url);
+      if (!match) {
+        try {
+          unmatched.add(new URL(row.canonical_url).hostname);
+        } catch {
+          // ignore malformed URLs
+        }
+        continue;
+      }
+      summary.matched += 1;
+
+      const next = {
+        institution_name: match.name,
+        province: row.province ?? match.province,
+        city: row.city ?? match.city,
+      };
+      if (next.institution_name === row.institution_name && next.province === row.province && next.city === row.city) {
+        continue;
+      }
+
+      if (!args?.dryRun) {
+        const { error: updateError } = await supabase.from('canada_opportunity').update(next).eq('id', row.id);
+        if (updateError) throw new Error(updateError.message);
+      }
+      summary.updated += 1;
+    }
+
+    if (rows.length < PAGE_SIZE) break;
+  }
+
+  summary.unmatchedHosts = Array.from(unmatched).sort();
+  return summary;
+}
+
+type StoredFactors = Partial<Record<'deadline' | 'funding' | 'eligibility', ConfidenceFactor[]>>;
+
+// Replays the current confidence weights over the factors stored on each row.
+// Status is left to the next verify run, which re-applies the safety gate.
+export async function runCanadaConfidenceRescore(args?: { dryRun?: boolean }) {
+  const supabase = canadaSupabase();
+  const summary = { scanned: 0, updated: 0 };
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('canada_opportunity')
+      .select('id,confidence_factors,deadline_score,funding_score,eligibility_score')
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(error.message);
+    const rows = data ?? [];
+
+    for (const row of rows) {
+      summary.scanned += 1;
+      const stored = (row.confidence_factors ?? {}) as StoredFactors;
+      const deadline = rescoreFactors(stored.deadline ?? []);
+      const funding = rescoreFactors(stored.funding ?? []);
+      const eligibility = rescoreFactors(stored.eligibility ?? []);
+      if (
+        deadline.score === row.deadline_score &&
+        funding.score === row.funding_score &&
+        eligibility.score === row.eligibility_score
+      ) {
+        continue;
+      }
+
+      if (!args?.dryRun) {
+        const { error: updateError } = await supabase
+          .from('canada_opportunity')
+          .update({
+            deadline_score: deadline.score,
+            deadline_confidence: deadline.confidence,
+            funding_score: funding.score,
+            funding_confidence: funding.confidence,
+            eligibility_score: eligibility.score,
+            eligibility_confidence: eligibility.confidence,
+            confidence_factors: { deadline: deadline.factors, funding: funding.factors, eligibility: eligibility.factors },
+          })
+          .eq('id', row.id);
+        if (updateError) throw new Error(updateError.message);
+      }
+      summary.updated += 1;
+    }
+
+    if (rows.length < PAGE_SIZE) break;
+  }
+
+  return summary;
+}
+
+type KeyedRow = {
+  id: string;
+  program_type: string;
+  canonical_url: string;
+  url_key: string;
+  fragment_id: string;
+  status: string;
+  last_verified_at: string;
+  created_at: string;
+};
+
+// The row kept when several share one identity: live first, then the most recently
+// verified, then the oldest.
+function keepFirst(a: KeyedRow, b: KeyedRow) {
+  const live = (r: KeyedRow) => (r.status === 'ACTIVE' || r.status === 'NEEDS_REVIEW' ? 1 : 0);
+  return live(b) - live(a) || b.last_verified_at.localeCompare(a.last_verified_at) || a.created_at.localeCompare(b.created_at);
+}
+
+// Sets url_key to canadaUrlKey(canonical_url) on every row, replacing the placeholder
+// keys of the url_key migration. Rows that end up sharing a key are merged: the best
+// one is kept and the others deleted.
+export async function runCanadaUrlKeyBackfill(args?: { dryRun?: boolean }) {
+  const supabase = canadaSupabase();
+  const summary = { scanned: 0, updated: 0, merged: 0, invalid: 0 };
+
+  const rows: KeyedRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('canada_opportunity')
+      .select('id,program_type,canonical_url,url_key,fragment_id,status,last_verified_at,created_at')
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+      .returns<KeyedRow[]>();
+
+    if (error) throw new Error(error.message);
+    rows.push(...(data ?? []));
+    if ((data ?? []).length < PAGE_SIZE) break;
+  }
+
+  const groups = new Map<string, Array<KeyedRow & { key: string }>>();
+  for (const row of rows) {
+    summary.scanned += 1;
+    const key = canadaUrlKey(row.canonical_url);
+    if (!key) {
+      summary.invalid += 1;
+      continue;
+    }
+    const identity = JSON.stringify([row.program_type, key, row.fragment_id]);
+    groups.set(identity, [...(groups.get(identity) ?? []), { ...row, key }]);
+  }
+
+  for (const group of groups.values()) {
+    const [kept, ...duplicates] = group.sort(keepFirst);
+    // Deleted first, as one of them may hold the key already.
+    if (duplicates.length > 0 && !args?.dryRun) {
+      const { error } = await supabase
+        .from('canada_opportunity')
+        .delete()
+        .in('id', duplicates.map((r) => r.id));
+      if (error) throw new Error(error.message);
+    }
+    summary.merged += duplicates.length;
+
+    if (kept.url_key === kept.key) continue;
+    if (!args?.dryRun) {
+      const { error } = await supabase.from('canada_opportunity').update({ url_key: kept.key }).eq('id', kept.id);
+      if (error) throw new Error(error.message);
+    }
+    summary.updated += 1;
+  }
+
+  return summary;
+}
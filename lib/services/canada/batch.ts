@@ -0,0 +1,40 @@
+// Collects writes from concurrent fetches so they reach the database together: a batch
+// is flushed once it holds `maxSize` items or `lingerMs` after its first item.
+export class WriteBatcher<In, Out> {
+  private pending: Array<{ item: In; resolve: (out: Out) => void; reject: (e: unknown) => void }> = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly write: (items: In[]) => Promise<Out[]>,
+    private readonly options: { maxSize: number; lingerMs: number },
+  ) {}
+
+  // Resolves with this item's result once its batch is written.
+  add(item: In): Promise<Out> {
+    return new Promise<Out>((resolve, reject) => {
+      this.pending.push({ item, resolve, reject });
+      if (this.pending.length >= this.options.maxSize) {
+        void this.flush();
+      } else {
+        this.timer ??= setTimeout(() => void this.flush(), this.options.lingerMs);
+      }
+    });
+  }
+
+  async flush() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const batch = this.pending;
+    this.pending = [];
+    if (batch.length === 0) return;
+
+    try {
+      const out = await this.write(batch.map((b) => b.item));
+      batch.forEach((b, i) => b.resolve(out[i]));
+    } catch (e) {
+      batch.forEach((b) => b.reject(e));
+    }
+  }
+}
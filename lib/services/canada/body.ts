@@ -0,0 +1,93 @@
+const HTML_CONTENT_TYPES = ['text/html', 'application/xhtml+xml'];
+const META_SNIFF_BYTES = 4096;
+
+export type ContentHandler = (args: { bytes: Uint8Array; contentType: string; url: string }) => Promise<string>;
+
+export function mimeType(contentType: string | null) {
+  return (contentType ?? '').split(';')[0].trim().toLowerCase();
+}
+
+export function isHtmlContentType(contentType: string | null) {
+  const mime = mimeType(contentType);
+  // No header at all: let the body decide, as browsers do.
+  return !mime || HTML_CONTENT_TYPES.includes(mime);
+}
+
+export async function readBodyWithLimit(
+  res: Response,
+  maxBytes: number,
+): Promise<{ bytes: Uint8Array; byteLength: number; exceeded: boolean }> {
+  if (!res.body) return { bytes: new Uint8Array(0), byteLength: 0, exceeded: false };
+
+  const declared = Number(res.headers.get('content-length') ?? NaN);
+  if (Number.isFinite(declared) && declared > maxBytes) {
+    await res.body.cancel().catch(() => undefined);
+    return { bytes: new Uint8Array(0), byteLength: declared, exceeded: true };
+  }
+
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let byteLength = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    byteLength += value.byteLength;
+    if (byteLength > maxBytes) {
+      await reader.cancel().catch(() => undefined);
+      return { bytes: new Uint8Array(0), byteLength, exceeded: true };
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(byteLength);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return { bytes, byteLength, exceeded: false };
+}
+
+function charsetFromBom(bytes: Uint8Array) {
+  if (bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes.length >= 2 && bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  return null;
+}
+
+function charsetFromContentType(contentType: string | null) {
+  const m = (contentType ?? '').match(/charset\s*=\s*["']?([\w.:-]+)/i);
+  return m ? m[1].toLowerCase() : null;
+}
+
+function charsetFromMeta(bytes: Uint8Array) {
+  // ASCII-compatible sniff of the document head, per the HTML prescan algorithm.
+  const head = new TextDecoder('latin1').decode(bytes.subarray(0, META_SNIFF_BYTES));
+  const direct = head.match(/<meta[^>]+charset\s*=\s*["']?\s*([\w.:-]+)/i);
+  return direct ? direct[1].toLowerCase() : null;
+}
+
+function supported(label: string | null) {
+  if (!label) return null;
+  try {
+    return new TextDecoder(label).encoding;
+  } catch {
+    return null;
+  }
+}
+
+// Precedence follows the HTML spec: BOM, then transport header, then <meta>.
+export function detectCharset(contentType: string | null, bytes: Uint8Array) {
+  return (
+    charsetFromBom(bytes) ??
+    supported(charsetFromContentType(contentType)) ??
+    supported(charsetFromMeta(bytes)) ??
+    'utf-8'
+  );
+}
+
+export function decodeBody(contentType: string | null, bytes: Uint8Array) {
+  // TextDecoder strips a matching BOM itself.
+  return new TextDecoder(detectCharset(contentType, bytes), { fatal: false }).decode(bytes);
+}
@@ -0,0 +1,87 @@
+import * as cheerio from 'cheerio';
+import { registrableDomain } from './institutions';
+
+const TRACKING_PARAMS = new Set([
+  'gclid',
+  'gclsrc',
+  'dclid',
+  'fbclid',
+  'msclkid',
+  'yclid',
+  'igshid',
+  'mc_cid',
+  'mc_eid',
+  '_ga',
+  '_gl',
+  '_hsenc',
+  '_hsmi',
+  'hsctatracking',
+  'mkt_tok',
+  'ref_src',
+  'jsessionid',
+  'phpsessid',
+  'sessionid',
+]);
+
+function isTrackingParam(name: string) {
+  const n = name.toLowerCase();
+  return n.startsWith('utm_') || TRACKING_PARAMS.has(n);
+}
+
+// Fetchable form: fragment, session path params and tracking parameters removed,
+// remaining query parameters sorted. Scheme, `www.` and trailing slash are left
+// alone because some servers only answer on one variant.
+export function cleanUrl(url: string): string | null {
+  try {
+    const u = new URL(url);
+    if (u.protocol !== 'http:' && u.protocol !== 'https:') return null;
+    u.hash = '';
+    u.pathname = u.pathname.replace(/;jsessionid=[^/]*/gi, '');
+    const params = Array.from(u.searchParams.entries())
+      .filter(([name]) => !isTrackingParam(name))
+      .sort(([a, av], [b, bv]) => (a === b ? (av < bv ? -1 : av > bv ? 1 : 0) : a < b ? -1 : 1));
+    u.search = '';
+    for (const [name, value] of params) u.searchParams.append(name, value);
+    return u.toString();
+  } catch {
+    return null;
+  }
+}
+
+// Identity form used for dedupe: the cleaned URL without scheme, `www.` or
+// trailing slash, lower-cased. `http://www.x.ca/a/?utm_source=y` and `https://x.ca/a`
+// share one key.
+export function canadaUrlKey(url: string): string | null {
+  const cleaned = cleanUrl(url);
+  if (!cleaned) return null;
+  const u = new URL(cleaned);
+  const host = u.host.replace(/^www\./, '');
+  const path = u.pathname.replace(/\/+$/, '');
+  return `${host}${path}${u.search}`.toLowerCase();
+}
+
+function relCanonical(html: string, baseUrl: string) {
+  const href = cheerio.load(html)('link[rel~="canonical"]').first().attr('href');
+  if (!href) return null;
+  try {
+    return new URL(href.trim(), baseUrl).toString();
+  } catch {
+    return null;
+  }
+}
+
+// Preference: the page's own rel=canonical, then the URL the redirects ended on,
+// then the URL that was requested. A rel=canonical is ignored when it leaves the
+// site or collapses a deep page onto the home page, both common CMS mistakes.
+export function resolveCanonicalUrl(args: { requestedUrl: string; finalUrl?: string | null; html?: string | null }) {
+  const landed = cleanUrl(args.finalUrl || args.requestedUrl) ?? args.requestedUrl;
+  const declared = args.html ? relCanonical(args.html, landed) : null;
+
+  if (declared) {
+    const cleaned = cleanUrl(declared);
+    const sameSite = registrableDomain(declared) === registrableDomain(landed);
+    const collapsesToRoot = new URL(declared).pathname === '/' && new URL(landed).pathname !== '/';
+    if (cleaned && sameSite && !collapsesToRoot) return cleaned;
+  }
+  return landed;
+}
@@ -0,0 +1,124 @@
+import * as cheerio from 'cheerio';
+import type { CanadaPageKind } from './types';
+import { extractStructuredPosting } from './extract';
+import { foldText } from './content';
+
+export type PageClassification = {
+  kind: CanadaPageKind;
+  listingScore: number;
+  postingScore: number;
+  signals: string[];
+};
+
+const LISTING_TITLE = /\b(open positions|positions available|current openings|opportunities|vacancies|careers|jobs|join (us|our (lab|team|group))|prospective students|postes (ouverts|disponibles|a pourvoir)|offres d'emploi|emplois|nous joindre)\b/;
+const POSTING_TITLE = /\b(ph\.?d\.?|doctoral|postdoc(toral)?|msc|master'?s|studentship|internship|research assistant|position in|position on|fellowship|doctorat|maitrise|stage|poste de|bourse de)\b/;
+const APPLY_TEXT = /\b(apply|application|how to apply|postuler|candidature|soumettre)\b/;
+const DEADLINE_TEXT = /\b(deadline|apply by|closing date|applications (are )?due|date limite|au plus tard)\b/g;
+const ACADEMIC_TEXT = /\b(phd|ph\.d|doctoral|postdoc|graduate|research|student|supervisor|thesis|laboratory|lab|doctorat|etudiant|recherche|laboratoire)\b/g;
+
+const MIN_SCORE = 2;
+const CARD_MIN_REPEATS = 3;
+
+// Largest run of sibling elements sharing tag+class where each carries a link and
+// some text of its own: the shape of a card grid or a list of postings.
+function largestCardGroup($: cheerio.CheerioAPI) {
+  let best = 0;
+  $('ul,ol,section,div,tbody,main').each((_, parent) => {
+    const counts = new Map<string, number>();
+    for (const child of $(parent).children().toArray()) {
+      const $child = $(child);
+      if ($child.find('a[href]').length === 0 && !$child.is('a[href]')) continue;
+      if ($child.text().replace(/\s+/g, ' ').trim().length < 25) continue;
+      const cls = ($child.attr('class') ?? '').split(/\s+/).filter(Boolean).sort().join('.');
+      const sig = `${String($child.prop('tagName') ?? '').toLowerCase()}.${cls}`;
+      counts.set(sig, (counts.get(sig) ?? 0) + 1);
+    }
+    for (const n of counts.values()) best = Math.max(best, n);
+  });
+  return best;
+}
+
+export function classifyPage(html: string): PageClassification {
+  const $ = cheerio.load(html);
+  $('script:not([type="application/ld+json"]),style,noscript,svg').remove();
+  // Navigation chrome is link-heavy on every page; judge the content area only.
+  $('nav,header,footer,[role="navigation"]').remove();
+  // Keep word boundaries between blocks in minified markup (`...2026</li><li>PhD...`).
+  $('p,li,div,td,th,dd,dt,h1,h2,h3,h4,h5,h6,br,article,section').append(' ');
+
+  const signals: string[] = [];
+  let listingScore = 0;
+  let postingScore = 0;
+
+  const structured = extractStructuredPosting(html);
+  if (structured && structured.source !== 'OPENGRAPH') {
+    postingScore += 4;
+    signals.push(`structured:${structured.schemaType ?? structured.source}`);
+  }
+
+  const body = $('main').length > 0 ? $('main').first() : $('body');
+  const text = foldText(body.text().replace(/\s+/g, ' ').trim());
+  const linkText = body
+    .find('a[href]')
+    .toArray()
+    .reduce((sum, a) => sum + $(a).text().replace(/\s+/g, ' ').trim().length, 0);
+  const linkDensity = text.length > 0 ? linkText / text.length : 1;
+
+  if (linkDensity >= 0.5) {
+    listingScore += 2;
+    signals.push(`link_density:${linkDensity.toFixed(2)}`);
+  } else if (linkDensity <= 0.2 && text.length >= 600) {
+    postingScore += 1;
+    signals.push(`prose:${linkDensity.toFixed(2)}`);
+  }
+
+  const cards = largestCardGroup($);
+  if (cards >= CARD_MIN_REPEATS) {
+    listingScore += cards >= 6 ? 3 : 2;
+    signals.push(`cards:${cards}`);
+  }
+
+  const title = foldText(`${$('h1').first().text()} ${$('title').first().text()}`.replace(/\s+/g, ' '));
+  if (LISTING_TITLE.test(title)) {
+    listingScore += 2;
+    signals.push('title:listing');
+  } else if (POSTING_TITLE.test(title)) {
+    postingScore += 2;
+    signals.push('title:posting');
+  }
+
+  const deadlineMentions = (text.match(DEADLINE_TEXT) ?? []).length;
+  if (deadlineMentions >= 3) {
+    // One deadline per card: several postings summarised on one page.
+    listingScore += 1;
+    signals.push(`deadlines:${deadlineMentions}`);
+  } else if (deadlineMentions >= 1) {
+    postingScore += 2;
+    signals.push(`deadlines:${deadlineMentions}`);
+  }
+
+  const applyLinks = body
+    .find('a[href],button')
+    .toArray()
+    .filter((el) => APPLY_TEXT.test(foldText($(el).text()))).length;
+  if (applyLinks >= 3) {
+    listingScore += 1;
+    signals.push(`apply_links:${applyLinks}`);
+  } else if (applyLinks >= 1 || APPLY_TEXT.test(text)) {
+    postingScore += 1;
+    signals.push('apply');
+  }
+
+  const academic = (text.match(ACADEMIC_TEXT) ?? []).length;
+  if (academic === 0) {
+    signals.push('no_academic_terms');
+    return { kind: 'IRRELEVANT', listingScore, postingScore, signals };
+  }
+
+  if (Math.max(listingScore, postingScore) < MIN_SCORE) {
+    return { kind: 'IRRELEVANT', listingScore, postingScore, signals };
+  }
+  // Ties go to LISTING: a missed posting is recrawled later, a listing stored as a posting is junk.
+  const kind: CanadaPageKind = postingScore > listingScore ? 'POSTING' : 'LISTING';
+  return { kind, listingScore, postingScore, signals };
+}
@@ -0,0 +1,88 @@
+import type { CanadaConfidence } from '../../../src/lib/canada/constants';
+import type { DeadlinePrecision } from '../deadlineParser';
+import type { CanadaPageKind } from './types';
+
+// Extraction confidence as a sum of weighted signals. Each factor keeps the raw
+// signal value next to the points it earned, so a change to the weights below can
+// be replayed over stored rows (rescoreFactors) without refetching the pages.
+
+export type ConfidenceSignal =
+  // How the value was found in the page text: 'labelled' date, 'rolling' deadline,
+  // or a funding/eligibility 'phrase'. Older rows may hold an 'unlabelled' date.
+  | 'text_match'
+  // The value came from JSON-LD or microdata.
+  | 'structured_data'
+  // Structured data and page text both gave a value: 'agree' or 'disagree'.
+  | 'structured_agreement'
+  // Characters between the nearest field label (deadline/funding/eligibility wording) and the match.
+  | 'keyword_distance'
+  | 'date_precision'
+  // Number of other, different values the page also matches.
+  | 'conflicting_matches'
+  | 'page_kind'
+  // 'registry' when the page is on a known institution domain.
+  | 'source_trust';
+
+export type ConfidenceSignalInput = { signal: ConfidenceSignal; value: string | number | boolean };
+export type ConfidenceFactor = ConfidenceSignalInput & { points: number };
+
+export type ScoredConfidence = {
+  score: number;
+  confidence: CanadaConfidence;
+  factors: ConfidenceFactor[];
+};
+
+export const HIGH_CONFIDENCE_MIN_SCORE = 75;
+export const MEDIUM_CONFIDENCE_MIN_SCORE = 45;
+
+const TEXT_MATCH_POINTS: Record<string, number> = { labelled: 40, rolling: 40, phrase: 40, unlabelled: 5 };
+const PRECISION_POINTS: Record<DeadlinePrecision, number> = { EXACT: 10, YEARLESS: -10, AMBIGUOUS: -25 };
+const PAGE_KIND_POINTS: Record<CanadaPageKind | 'SEGMENT', number> = { POSTING: 10, SEGMENT: 5, LISTING: -10, IRRELEVANT: -20 };
+
+function pointsFor({ signal, value }: ConfidenceSignalInput): number {
+  switch (signal) {
+    case 'text_match':
+      return TEXT_MATCH_POINTS[String(value)] ?? 0;
+    case 'structured_data':
+      return value ? 60 : 0;
+    case 'structured_agreement':
+      return value === 'agree' ? 20 : value === 'disagree' ? -25 : 0;
+    case 'keyword_distance': {
+      const d = Number(value);
+      if (!Number.isFinite(d)) return 0;
+      return d <= 40 ? 15 : d <= 100 ? 8 : 0;
+    }
+    case 'date_precision':
+      return PRECISION_POINTS[value as DeadlinePrecision] ?? 0;
+    case 'conflicting_matches':
+      return -20 * Math.min(2, Number(value) || 0);
+    case 'page_kind':
+      return PAGE_KIND_POINTS[value as CanadaPageKind | 'SEGMENT'] ?? 0;
+    case 'source_trust':
+      return value === 'registry' ? 10 : 0;
+  }
+}
+
+export function confidenceFromScore(score: number): CanadaConfidence {
+  if (score >= HIGH_CONFIDENCE_MIN_SCORE) return 'HIGH';
+  if (score >= MEDIUM_CONFIDENCE_MIN_SCORE) return 'MEDIUM';
+  return 'LOW';
+}
+
+// No signals means no value was found: score 0, LOW.
+export function scoreSignals(signals: ConfidenceSignalInput[]): ScoredConfidence {
+  const factors = signals.map((s) => ({ signal: s.signal, value: s.value, points: pointsFor(s) }));
+  const total = factors.reduce((sum, f) => sum + f.points, 0);
+  const score = factors.length === 0 ? 0 : Math.max(0, Math.min(100, total));
+  return { score, confidence: confidenceFromScore(score), factors };
+}
+
+export function rescoreFactors(factors: ConfidenceFactor[]): ScoredConfidence {
+  return scoreSignals(factors.map(({ signal, value }) => ({ signal, value })));
+}
+
+// Adds page-level context to a field scored from text alone.
+export function withContext<T extends ScoredConfidence>(field: T, context: ConfidenceSignalInput[]): T {
+  if (field.factors.length === 0) return field;
+  return { ...field, ...scoreSignals([...field.factors, ...context]) };
+}
@@ -25,6 +25,31 @@ export function looksLikeLoginWall(text: string) {
   );
 }
 
+export type ClosedNotice = 'position_filled' | 'no_longer_accepting';
+
+// Patterns run on folded text. "Open until the position is filled" is the opposite
+// of a closed notice, hence the lookbehinds.
+const CLOSED_NOTICES: Array<[ClosedNotice, RegExp]> = [
+  [
+    'position_filled',
+    /(?<!until )(?<!until the )(?<!until this )\b(?:(?:this|the) )?(?:position|post|role|opening|vacancy|studentship) (?:has been|is now|is|was) (?:filled|taken)\b/,
+  ],
+  ['position_filled', /(?<!until )\bposition filled\b/],
+  ['position_filled', /\b(?:ce |le )?poste (?:a ete|est(?: maintenant)?) (?:comble|pourvu)\b/],
+  ['position_filled', /\bposte (?:comble|pourvu)\b/],
+  ['no_longer_accepting', /\bno longer (?:accepting|taking|receiving) (?:applications|candidates|submissions)\b/],
+  ['no_longer_accepting', /\b(?:applications|the competition|this competition|recruitment) (?:is|are|has|have) (?:now )?(?:been )?closed\b(?! on| at| after| until)/],
+  ['no_longer_accepting', /\bn.acceptons plus (?:de |les )?candidatures\b/],
+  ['no_longer_accepting', /\b(?:les )?candidatures sont (?:maintenant )?(?:closes|fermees)\b/],
+  ['no_longer_accepting', /\bconcours (?:est )?(?:ferme|clos)\b/],
+];
+
+// A notice that the posting was filled or stopped taking applications.
+export function closedNotice(text: string): ClosedNotice | null {
+  const t = foldText(text).replace(/\s+/g, ' ');
+  return CLOSED_NOTICES.find(([, re]) => re.test(t))?.[0] ?? null;
+}
+
 export function extractH1(html: string) {
   const $ = cheerio.load(html);
   const h1 = $('h1').first().text().replace(/\s+/g, ' ').trim();
@@ -37,6 +62,20 @@ export function extractText(html: string) {
   return $.text().replace(/\s+/g, ' ').trim();
 }
 
+// Text of the content area only: site chrome differs between mirrors of one posting.
+export function extractMainText(html: string) {
+  const $ = cheerio.load(html);
+  $('script,style,noscript,svg,nav,header,footer,aside,[role="navigation"],[role="banner"],[role="contentinfo"]').remove();
+  $('p,li,div,td,th,dd,dt,h1,h2,h3,h4,h5,h6,br,article,section').append(' ');
+  const main = $('main,[role="main"],article,#content,#main-content').first();
+  return (main.length > 0 ? main : $('body')).text().replace(/\s+/g, ' ').trim();
+}
+
+// Lower-cases and strips accents so French patterns need not spell out every diacritic.
+export function foldText(text: string) {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
 export function resolveUrl(base: string, href: string) {
   try {
     return new URL(href, base).toString();
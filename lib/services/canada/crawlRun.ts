@@ -0,0 +1,216 @@
+import type { CanadaProgramType } from '../../../src/lib/canada/constants';
+import type { CanadaCrawlRunRow, CanadaSupabaseClient } from './db';
+import type { CanadaDiscoverMode } from './types';
+import type { DiscoverSummary } from './discover';
+import type { SeedRunOutcome } from './seedStats';
+import type { SitemapCursor } from './sitemap';
+
+// Persistence for discover runs that resume across cron invocations (see
+// canada_crawl_runs). The crawler mutates the loaded run in place and checkpoints it.
+
+const MAX_FAILED_INVOCATIONS = 3;
+
+export type CrawlPlanEntry = { source_id: string; budget: number };
+
+export type FrontierItem = { url: string; depth: number; lastModified?: string | null };
+
+// Where a started, unfinished source stands.
+export type SourceFrontier = {
+  source_id: string;
+  budget: number;
+  // CRAWL follows links from the base URL and from listings, GOOGLE_SEED only from
+  // listings, SITEMAP not at all.
+  expand: 'SEEDS_AND_LISTINGS' | 'LISTINGS' | 'NONE';
+  queue: FrontierItem[];
+  // SITEMAP: sitemap files still to read into the queue; null when there are none.
+  sitemaps: SitemapCursor | null;
+  // url_keys already queued or fetched
+  visited: string[];
+  requests: number;
+  proposals: number;
+  // This source's own pages, for its seed stats; sources run side by side.
+  outcome: SeedRunOutcome;
+};
+
+export type CrawlRun = {
+  id: string;
+  program_type: CanadaProgramType | null;
+  mode: CanadaDiscoverMode;
+  status: CanadaCrawlRunRow['status'];
+  plan: CrawlPlanEntry[];
+  // Next plan entry to start; started sources still running are in `frontiers`.
+  cursor: number;
+  frontiers: SourceFrontier[];
+  summary: DiscoverSummary;
+  invocations: number;
+  started_at: string;
+  finished_at: string | null;
+};
+
+export type CrawlRunProgress = {
+  runId: string;
+  status: CrawlRun['status'];
+  // Another invocation holds the run's lease; nothing was done.
+  busy: boolean;
+  invocations: number;
+  sourcesDone: number;
+  sourcesTotal: number;
+  // URLs waiting in the frontiers of sources in progress
+  queued: number;
+  startedAt: string;
+  finishedAt: string | null;
+  summary: DiscoverSummary;
+};
+
+function fromRow(row: CanadaCrawlRunRow): CrawlRun {
+  return {
+    id: row.id,
+    program_type: row.program_type,
+    mode: row.mode,
+    status: row.status,
+    plan: row.plan as CrawlPlanEntry[],
+    cursor: row.cursor,
+    frontiers: (row.frontier ?? []) as SourceFrontier[],
+    summary: row.summary as DiscoverSummary,
+    invocations: row.invocations,
+    started_at: row.started_at,
+    finished_at: row.finished_at,
+  };
+}
+
+function leaseUntil(leaseMs: number) {
+  return new Date(Date.now() + leaseMs).toISOString();
+}
+
+export function crawlRunProgress(run: CrawlRun, busy: boolean): CrawlRunProgress {
+  return {
+    runId: run.id,
+    status: run.status,
+    busy,
+    invocations: run.invocations,
+    sourcesDone: Math.min(run.cursor, run.plan.length) - run.frontiers.length,
+    sourcesTotal: run.plan.length,
+    queued: run.frontiers.reduce((n, f) => n + f.queue.length, 0),
+    startedAt: run.started_at,
+    finishedAt: run.finished_at,
+    summary: run.summary,
+  };
+}
+
+// The open run for this scope and mode, leased to the caller; null when there is none
+// or another invocation is working on it.
+export async function claimCrawlRun(
+  supabase: CanadaSupabaseClient,
+  args: { programType: CanadaProgramType | null; mode: CanadaDiscoverMode; leaseMs: number },
+) {
+  const { data, error } = await supabase.rpc('canada_claim_crawl_run', {
+    p_program_type: args.programType,
+    p_mode: args.mode,
+    p_lease_seconds: Math.ceil(args.leaseMs / 1000),
+  });
+  if (error) throw new Error(error.message);
+  const row = data?.[0];
+  return row ? fromRow(row) : null;
+}
+
+export async function findOpenCrawlRun(
+  supabase: CanadaSupabaseClient,
+  args: { programType: CanadaProgramType | null; mode: CanadaDiscoverMode },
+) {
+  let query = supabase.from('canada_crawl_runs').select('*').eq('status', 'RUNNING').eq('mode', args.mode);
+  query = args.programType ? query.eq('program_type', args.programType) : query.is('program_type', null);
+  const { data, error } = await query.maybeSingle<CanadaCrawlRunRow>();
+  if (error) throw new Error(error.message);
+  return data ? fromRow(data) : null;
+}
+
+// Starts a run already leased to the caller. Returns null when a concurrent
+// invocation opened one for the same scope first.
+export async function createCrawlRun(
+  supabase: CanadaSupabaseClient,
+  args: {
+    programType: CanadaProgramType | null;
+    mode: CanadaDiscoverMode;
+    plan: CrawlPlanEntry[];
+    summary: DiscoverSummary;
+    leaseMs: number;
+  },
+) {
+  const { data, error } = await supabase
+    .from('canada_crawl_runs')
+    .insert({
+      program_type: args.programType,
+      mode: args.mode,
+      plan: args.plan,
+      summary: args.summary,
+      invocations: 1,
+      locked_until: leaseUntil(args.leaseMs),
+    })
+    .select('*')
+    .single<CanadaCrawlRunRow>();
+  if (error) {
+    if (error.code === '23505') return null;
+    throw new Error(error.message);
+  }
+  return fromRow(data);
+}
+
+export async function checkpointCrawlRun(supabase: CanadaSupabaseClient, run: CrawlRun, leaseMs: number) {
+  const { error } = await supabase
+    .from('canada_crawl_runs')
+    .update({
+      cursor: run.cursor,
+      frontier: run.frontiers,
+      summary: run.summary,
+      locked_until: leaseUntil(leaseMs),
+    })
+    .eq('id', run.id);
+  if (error) throw new Error(error.message);
+}
+
+// Saves the run at the end of an invocation and releases the lease; the run is
+// complete once every planned source was started and has finished.
+export async function finishCrawlInvocation(supabase: CanadaSupabaseClient, run: CrawlRun) {
+  if (run.cursor >= run.plan.length && run.frontiers.length === 0) {
+    run.status = 'COMPLETED';
+    run.finished_at = new Date().toISOString();
+  }
+  const { error } = await supabase
+    .from('canada_crawl_runs')
+    .update({
+      status: run.status,
+      cursor: run.cursor,
+      frontier: run.frontiers,
+      summary: run.summary,
+      finished_at: run.finished_at,
+      consecutive_failures: 0,
+      last_error: null,
+      locked_until: null,
+    })
+    .eq('id', run.id);
+  if (error) throw new Error(error.message);
+}
+
+// Records a failed invocation. Progress up to the last checkpoint is kept and the next
+// invocation retries from there; a run failing repeatedly is closed so a new one can start.
+export async function failCrawlInvocation(supabase: CanadaSupabaseClient, run: CrawlRun, message: string) {
+  const { data, error } = await supabase
+    .from('canada_crawl_runs')
+    .select('consecutive_failures')
+    .eq('id', run.id)
+    .single<{ consecutive_failures: number }>();
+  if (error) throw new Error(error.message);
+
+  const failures = data.consecutive_failures + 1;
+  const closed = failures >= MAX_FAILED_INVOCATIONS;
+  const { error: updateError } = await supabase
+    .from('canada_crawl_runs')
+    .update({
+      consecutive_failures: failures,
+      last_error: message,
+      locked_until: null,
+      ...(closed ? { status: 'FAILED' as const, finished_at: new Date().toISOString() } : {}),
+    })
+    .eq('id', run.id);
+  if (updateError) throw new Error(updateError.message);
+}
@@ -5,10 +5,15 @@ export function canadaSupabase() {
   return createServerSupabaseClient();
 }
 
+export type CanadaSupabaseClient = ReturnType<typeof canadaSupabase>;
+
 export type CanadaOpportunityRow = Database['public']['Tables']['canada_opportunity']['Row'];
 export type CanadaOpportunityInsert = Database['public']['Tables']['canada_opportunity']['Insert'];
 export type CanadaOpportunityUpdate = Database['public']['Tables']['canada_opportunity']['Update'];
 
 export type CanadaSourceRow = Database['public']['Tables']['canada_sources']['Row'];
 export type CanadaFetchLogInsert = Database['public']['Tables']['canada_fetch_logs']['Insert'];
+export type CanadaRevisionRow = Database['public']['Tables']['canada_opportunity_revisions']['Row'];
+export type CanadaRevisionInsert = Database['public']['Tables']['canada_opportunity_revisions']['Insert'];
 export type CanadaSeedStatsRow = Database['public']['Tables']['canada_seed_stats']['Row'];
+export type CanadaCrawlRunRow = Database['public']['Tables']['canada_crawl_runs']['Row'];
@@ -0,0 +1,143 @@
+import { CANADA_CLOSED_STATUSES, type CanadaOpportunityStatus } from '../../../src/lib/canada/constants';
+import { canadaSupabase, type CanadaOpportunityRow } from './db';
+import { fingerprintSimilarity, NEAR_DUPLICATE_MIN_SIMILARITY } from './fingerprint';
+import { lookupInstitution, registrableDomain } from './institutions';
+
+const CLOSED = `(${CANADA_CLOSED_STATUSES.join(',')})`;
+
+function isClosed(status: CanadaOpportunityStatus) {
+  return (CANADA_CLOSED_STATUSES as readonly CanadaOpportunityStatus[]).includes(status);
+}
+
+const CLUSTER_COLUMNS =
+  'id,program_type,canonical_url,url_key,application_url,fingerprint,fingerprint_bands,duplicate_of,status,deadline_date,deadline_confidence,funding_type,international_allowed,start_term,created_at';
+
+type ClusterRow = Pick<
+  CanadaOpportunityRow,
+  | 'id'
+  | 'program_type'
+  | 'canonical_url'
+  | 'url_key'
+  | 'application_url'
+  | 'fingerprint'
+  | 'fingerprint_bands'
+  | 'duplicate_of'
+  | 'status'
+  | 'deadline_date'
+  | 'deadline_confidence'
+  | 'funding_type'
+  | 'international_allowed'
+  | 'start_term'
+  | 'created_at'
+>;
+
+// Source trust (official institution domain, https, close to the institution's own
+// site rather than a deep lab subdomain) plus completeness of the extracted fields.
+export function primaryScore(row: ClusterRow) {
+  let score = 0;
+  if (lookupInstitution(row.canonical_url)) score += 3;
+  if (row.canonical_url.startsWith('https:')) score += 1;
+  try {
+    const host = new URL(row.canonical_url).hostname.replace(/^www\./, '');
+    const domain = registrableDomain(row.canonical_url) ?? host;
+    if (host.split('.').length - domain.split('.').length <= 1) score += 1;
+  } catch {
+    // unparseable URLs earn no trust
+  }
+
+  if (row.deadline_date) score += row.deadline_confidence === 'HIGH' ? 3 : 2;
+  if (row.funding_type !== 'UNKNOWN') score += 1;
+  if (row.international_allowed !== 'UNKNOWN') score += 1;
+  if (row.start_term) score += 1;
+  if (row.application_url.split('#')[0] !== row.canonical_url) score += 1;
+  if (row.status === 'ACTIVE') score += 1;
+  return score;
+}
+
+function pickPrimary(rows: ClusterRow[]) {
+  return [...rows].sort(
+    (a, b) =>
+      primaryScore(b) - primaryScore(a) || a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id),
+  )[0];
+}
+
+// Re-clusters the given rows against everything sharing a MinHash band with them.
+// Each cluster gets one primary (duplicate_of null); the rest point at it.
+export async function resolveNearDuplicates(ids: string[]) {
+  const supabase = canadaSupabase();
+  const summary = { clusters: 0, secondaries: 0 };
+  if (ids.length === 0) return summary;
+
+  const { data: rows, error } = await supabase
+    .from('canada_opportunity')
+    .select(CLUSTER_COLUMNS)
+    .in('id', ids)
+    .returns<ClusterRow[]>();
+  if (error) throw new Error(error.message);
+
+  const settled = new Set<string>();
+  for (const row of rows ?? []) {
+    if (settled.has(row.id) || isClosed(row.status)) continue;
+
+    const candidates = row.fingerprint
+      ? await supabase
+          .from('canada_opportunity')
+          .select(CLUSTER_COLUMNS)
+          .eq('program_type', row.program_type)
+          .neq('id', row.id)
+          .not('status', 'in', CLOSED)
+          .overlaps('fingerprint_bands', row.fingerprint_bands)
+          .limit(200)
+          .returns<ClusterRow[]>()
+      : { data: [] as ClusterRow[], error: null };
+    if (candidates.error) throw new Error(candidates.error.message);
+
+    // Postings split from one page share boilerplate but are distinct openings.
+    const near = (candidates.data ?? []).filter(
+      (c) =>
+        c.url_key !== row.url_key &&
+        c.fingerprint &&
+        row.fingerprint &&
+        fingerprintSimilarity(c.fingerprint, row.fingerprint) >= NEAR_DUPLICATE_MIN_SIMILARITY,
+    );
+
+    if (near.length === 0) {
+      // No longer mirrors anything: detach it, and release rows that were folded into it
+      // so their own next pass can re-cluster them.
+      if (row.duplicate_of) {
+        await supabase.from('canada_opportunity').update({ duplicate_of: null }).eq('id', row.id);
+      }
+      await supabase.from('canada_opportunity').update({ duplicate_of: null }).eq('duplicate_of', row.id);
+      settled.add(row.id);
+      continue;
+    }
+
+    // Pull in the existing clusters the matches already belong to.
+    const memberIds = [row.id, ...near.map((n) => n.id)];
+    const primaryIds = near.map((n) => n.duplicate_of).filter((v): v is string => Boolean(v));
+    const { data: linked, error: linkedError } = await supabase
+      .from('canada_opportunity')
+      .select(CLUSTER_COLUMNS)
+      .or(`id.in.(${[...memberIds, ...primaryIds].join(',')}),duplicate_of.in.(${memberIds.join(',')})`)
+      .not('status', 'in', CLOSED)
+      .returns<ClusterRow[]>();
+    if (linkedError) throw new Error(linkedError.message);
+
+    const cluster = new Map<string, ClusterRow>();
+    for (const r of [row, ...near, ...(linked ?? [])]) cluster.set(r.id, r);
+
+    const primary = pickPrimary(Array.from(cluster.values()));
+    for (const member of cluster.values()) {
+      const target = member.id === primary.id ? null : primary.id;
+      if (member.duplicate_of !== target) {
+        await supabase.from('canada_opportunity').update({ duplicate_of: target }).eq('id', member.id);
+      }
+      settled.add(member.id);
+    }
+
+    summary.clusters += 1;
+    summary.secondaries += cluster.size - 1;
+  }
+
+  return summary;
+}
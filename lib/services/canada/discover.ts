@@ -1,11 +1,40 @@
 import * as cheerio from 'cheerio';
 import type { CanadaProgramType } from '../../../src/lib/canada/constants';
 import { canadaSupabase } from './db';
-import type { CanadaSourceRow } from './types';
+import type { CanadaDiscoverMode, CanadaFetchStatus, CanadaPageKind, CanadaSourceRow } from './types';
 import { CanadaHttpClient } from './http';
-import { buildOpportunityFromHtml } from './extract';
-import { computeContentHash, resolveUrl } from './content';
-import { safetyGate } from './safetyGate';
+import { httpArchiveFromEnv, type HttpArchiveOptions } from './archive';
+import { ReadOnlyHostStateStore, SupabaseHostStateStore } from './hostState';
+import { buildOpportunitiesFromHtml } from './extract';
+import { segmentPostings } from './segment';
+import { foldText, resolveUrl } from './content';
+import { safetyGate, type SafetyGateDecision } from './safetyGate';
+import { buildFetchLogRows, createFetchLogWriter } from './fetchLog';
+import { newSitemapCursor, readSitemaps, sitemapsDone, type SitemapCursor } from './sitemap';
+import { classifyPage } from './classify';
+import { canadaUrlKey, cleanUrl, resolveCanonicalUrl } from './canonical';
+import { fingerprintBands } from './fingerprint';
+import { resolveNearDuplicates } from './dedupe';
+import { loadSeedStats, recordSeedRun, scheduleSources, type SeedRunOutcome } from './seedStats';
+import {
+  checkpointCrawlRun,
+  claimCrawlRun,
+  crawlRunProgress,
+  createCrawlRun,
+  failCrawlInvocation,
+  findOpenCrawlRun,
+  finishCrawlInvocation,
+  type CrawlRunProgress,
+  type FrontierItem,
+  type SourceFrontier,
+} from './crawlRun';
+import { buildRevision, insertRevisions, REVISION_COLUMNS, type RevisionSnapshot } from './revisions';
+import { isCanadianAcademicUrl, registrableDomain } from './institutions';
+import { createSearchProvider, type SearchProvider } from './search';
+import { HostScheduler, schedulerLimitsFromEnv } from './scheduler';
+import { WriteBatcher } from './batch';
+import type { CanadaOpportunityInsert } from './db';
+import { livenessThresholdsFromEnv, nextLiveness, type LivenessState, type LivenessThresholds, type TerminalSignal } from './liveness';
 
 function sameHost(a: string, b: string) {
   try {
@@ -15,7 +44,7 @@ function sameHost(a: string, b: string) {
   }
 }
 
-function urlAllowed(url: string, source: CanadaSourceRow) {
+export function urlAllowed(url: string, source: Pick<CanadaSourceRow, 'allow_paths' | 'block_paths'>) {
   const path = (() => {
     try {
       return new URL(url).pathname;
@@ -31,272 +60,910 @@ function urlAllowed(url: string, source: CanadaSourceRow) {
 
 function extractLinks(html: string, baseUrl: string) {
   const $ = cheerio.load(html);
-  const out: string[] = [];
+  const out: Array<{ url: string; text: string }> = [];
   for (const el of $('a[href]').toArray()) {
     const href = $(el).attr('href');
     if (!href) continue;
     const abs = resolveUrl(baseUrl, href);
     if (!abs) continue;
-    out.push(abs);
+    out.push({ url: abs, text: $(el).text().replace(/\s+/g, ' ').trim() });
   }
   return out;
 }
 
+const MAX_SEARCH_RESULTS = 20;
+const MAX_PROPOSALS_PER_SOURCE = 10;
+// Outbound links worth proposing as a source: they point at openings, not at a
+// university's home page or news.
+const CANDIDATE_LINK =
+  /(position|opening|opportunit|vacanc|job|career|recruit|join|prospective|graduate|phd|postdoc|intern|studentship|poste|emploi|stage|recrutement)/;
+
+type UpsertStats = { accepted: number; blocked: number; expired: number };
+
+type DepthStats = UpsertStats & { depth: number; urlsVisited: number; listings: number; irrelevant: number };
+
+const NO_UPSERT: UpsertStats = { accepted: 0, blocked: 0, expired: 0 };
+
+const PAGE_TIMEOUT_MS = 20_000;
+const PAGE_RETRY_BUDGET_MS = 30_000;
+// An invocation stops taking pages when less than this is left of its budget.
+const MIN_PAGE_MS = 5_000;
+const DEFAULT_TIME_BUDGET_MS = 45_000;
+// Added to the time budget for the run's lease, so a slow last page finishes before
+// another invocation may take the run over.
+const LEASE_MARGIN_MS = 60_000;
+
+// What a test crawl would have written: fetch outcomes, the rows with their safety
+// gate decisions, and candidate sources.
+export type DiscoverTrace = {
+  fetches: Array<{
+    url: string;
+    canonical_url: string;
+    status: CanadaFetchStatus;
+    http_status: number | null;
+    blocked_reason: string | null;
+    error_message: string | null;
+    elapsed_ms: number;
+    page_kind: CanadaPageKind | null;
+  }>;
+  records: Array<{ record: Record<string, unknown>; decision: SafetyGateDecision }>;
+  proposals: string[];
+};
+
+function visitKey(url: string) {
+  return canadaUrlKey(url) ?? url;
+}
+
+// Null when the page was not fetched: the scheduler did not start it (time or request
+// cap ran out) or its host was backing off. It stays queued for the next invocation.
 async function fetchAndUpsertOne(args: {
   programType: CanadaProgramType;
   source: CanadaSourceRow;
   url: string;
-  http: CanadaHttpClient;
-}) {
-  const supabase = canadaSupabase();
+  ctx: DiscoverContext;
+  fallbackLastModified?: string | null;
+}): Promise<{ stats: UpsertStats; html: string | null; kind: CanadaPageKind | null } | null> {
+  const { ctx } = args;
 
-  const fetched = await args.http.fetchPage({
+  const fetched = await ctx.scheduler.schedule({
     url: args.url,
-    canonicalUrl: args.url,
-    timeoutMs: 20_000,
     minDelayMs: args.source.min_delay_ms,
-    maxBytes: 450_000,
-    conditional: { etag: null, lastModified: null },
-    respectRobots: args.source.respect_robots,
+    // The fetch, with retries, must fit in what is left of the time budget.
+    run: () =>
+      ctx.http.fetchPage({
+        url: args.url,
+        canonicalUrl: args.url,
+        timeoutMs: Math.min(PAGE_TIMEOUT_MS, timeLeft(ctx)),
+        retryBudgetMs: Math.min(PAGE_RETRY_BUDGET_MS, timeLeft(ctx)),
+        minDelayMs: args.source.min_delay_ms,
+        maxBytes: 450_000,
+        conditional: { etag: null, lastModified: null },
+        respectRobots: args.source.respect_robots,
+      }),
   });
+  if (!fetched) return null;
 
-  await supabase.from('canada_fetch_logs').insert({
-    action: 'DISCOVER',
-    status: fetched.status,
-    program_type: args.programType,
-    source_id: args.source.id,
-    canonical_url: args.url,
-    fetched_url: fetched.fetchedUrl,
-    http_status: fetched.httpStatus,
-    elapsed_ms: fetched.elapsedMs,
-    response_bytes: fetched.responseBytes,
-    etag: fetched.etag,
-    page_last_modified: fetched.lastModified,
-    content_hash: fetched.bodyText ? computeContentHash(fetched.bodyText.slice(0, 20000)) : null,
-    blocked_reason: fetched.blockedReason,
-    error_message: fetched.errorMessage,
-  });
+  const canonicalUrl = resolveCanonicalUrl({ requestedUrl: args.url, finalUrl: fetched.fetchedUrl, html: fetched.bodyText });
+
+  let traced: DiscoverTrace['fetches'][number] | null = null;
+  if (ctx.trace) {
+    traced = {
+      url: args.url,
+      canonical_url: canonicalUrl,
+      status: fetched.status,
+      http_status: fetched.httpStatus,
+      blocked_reason: fetched.blockedReason,
+      error_message: fetched.errorMessage,
+      elapsed_ms: fetched.elapsedMs,
+      page_kind: null,
+    };
+    ctx.trace.fetches.push(traced);
+  }
 
+  const fetchLogId = ctx.writers
+    ? await ctx.writers.writeFetchLog(
+        buildFetchLogRows({
+          action: 'DISCOVER',
+          programType: args.programType,
+          sourceId: args.source.id,
+          canonicalUrl,
+          fetched,
+        }),
+      )
+    : null;
+
+  if (fetched.status === 'DEFERRED') return null;
   if (fetched.status !== 'OK' || !fetched.bodyText) {
-    return { accepted: 0, blocked: fetched.status === 'BLOCKED' ? 1 : 0, expired: 0 };
+    return { stats: { ...NO_UPSERT, blocked: fetched.status === 'BLOCKED' ? 1 : 0 }, html: null, kind: null };
   }
 
-  const built = buildOpportunityFromHtml({
+  // Only postings become rows; listings are mined for links by the caller. A page
+  // holding several full postings inline reads as a listing but is split into rows.
+  const { kind } = classifyPage(fetched.bodyText);
+  if (traced) traced.page_kind = kind;
+  const inlinePostings = kind === 'LISTING' && segmentPostings(fetched.bodyText).length > 0;
+  if (kind !== 'POSTING' && !inlinePostings) {
+    return { stats: NO_UPSERT, html: fetched.bodyText, kind };
+  }
+
+  const stats = await upsertFromHtml({
     programType: args.programType,
-    canonicalUrl: args.url,
-    sourceUrl: args.source.base_url,
+    source: args.source,
+    canonicalUrl,
+    fetchLogId,
+    ctx,
+    pageKind: kind,
     html: fetched.bodyText,
     etag: fetched.etag,
-    lastModified: fetched.lastModified,
-  });
-
-  const decision = safetyGate({
-    blocked: false,
-    loginWall: false,
-    applicationUrl: built.appUrl,
-    deadlineDate: built.deadline.date,
-    deadlineConfidence: built.deadline.confidence,
+    lastModified: fetched.lastModified ?? args.fallbackLastModified ?? null,
   });
 
-  const payload = {
-    program_type: args.programType,
-    country: 'Canada',
-    province: null,
-    city: null,
-    institution_name: built.institution,
-    department: null,
-    lab_group: null,
-    title_clean: built.titleClean,
-    nutshell_15_words: built.nutshell,
-    funding_type: built.funding.type,
-    funding_confidence: built.funding.confidence,
-    funding_evidence: built.funding.evidence,
-    international_allowed: built.intl.allowed,
-    eligibility_confidence: built.intl.confidence,
-    eligibility_notes: null,
-    eligibility_evidence: built.intl.evidence,
-    start_term: built.startTerm,
-    deadline_date: built.deadline.date,
-    deadline_confidence: built.deadline.confidence,
-    deadline_evidence: built.deadline.evidence,
-    application_url: built.appUrl ?? args.url,
-    source_url: args.source.base_url,
-    canonical_url: args.url,
-    last_verified_at: new Date().toISOString(),
-    freshness_score: 80,
-    status: decision.status,
-    status_reason: decision.reason,
-    content_hash: built.contentHash,
-    page_last_modified: built.pageLastModified,
-    etag: built.etag,
-  };
-
-  const { error: upsertError } = await supabase
-    .from('canada_opportunity')
-    .upsert(payload, { onConflict: 'canonical_url,program_type' });
-
-  if (upsertError) {
-    throw new Error(upsertError.message);
-  }
-
-  return {
-    accepted: decision.status === 'ACTIVE' || decision.status === 'NEEDS_REVIEW' ? 1 : 0,
-    blocked: decision.status === 'BLOCKED' ? 1 : 0,
-    expired: decision.status === 'EXPIRED' ? 1 : 0,
-  };
+  return { stats, html: fetched.bodyText, kind };
 }
 
 async function upsertFromHtml(args: {
   programType: CanadaProgramType;
   source: CanadaSourceRow;
-  url: string;
+  canonicalUrl: string;
+  fetchLogId: string | null;
+  ctx: DiscoverContext;
+  pageKind: CanadaPageKind;
   html: string;
   etag: string | null;
   lastModified: string | null;
-}) {
-  const supabase = canadaSupabase();
-
-  const built = buildOpportunityFromHtml({
+}): Promise<UpsertStats> {
+  const builds = buildOpportunitiesFromHtml({
     programType: args.programType,
-    canonicalUrl: args.url,
+    canonicalUrl: args.canonicalUrl,
     sourceUrl: args.source.base_url,
     html: args.html,
     etag: args.etag,
     lastModified: args.lastModified,
+    pageKind: args.pageKind,
   });
 
-  const decision = safetyGate({
-    blocked: false,
-    loginWall: false,
-    applicationUrl: built.appUrl,
-    deadlineDate: built.deadline.date,
-    deadlineConfidence: built.deadline.confidence,
+  const urlKey = canadaUrlKey(args.canonicalUrl) ?? args.canonicalUrl;
+
+  const thresholds = livenessThresholdsFromEnv();
+  const stats: UpsertStats = { ...NO_UPSERT };
+  const decisions: SafetyGateDecision[] = [];
+  const payloads = builds.map((built): CanadaOpportunityInsert => {
+    // Read as a new row here; writeOpportunities continues an existing row's streak.
+    const { transition, ...liveness } = nextLiveness(null, pageCheck(built.closed), thresholds);
+    const decision =
+      transition ??
+      safetyGate({
+        blocked: false,
+        loginWall: false,
+        applicationUrl: built.appUrl,
+        deadlineDate: built.deadline.date,
+        deadlineScore: built.deadline.score,
+      });
+
+    if (decision.status === 'ACTIVE' || decision.status === 'NEEDS_REVIEW') stats.accepted += 1;
+    if (decision.status === 'BLOCKED') stats.blocked += 1;
+    if (decision.status === 'EXPIRED') stats.expired += 1;
+    decisions.push(decision);
+
+    return {
+      program_type: args.programType,
+      country: 'Canada',
+      province: built.province,
+      city: built.city,
+      language: built.language,
+      institution_name: built.institution,
+      department: null,
+      lab_group: null,
+      title_clean: built.titleClean,
+      nutshell_15_words: built.nutshell,
+      funding_type: built.funding.type,
+      funding_confidence: built.funding.confidence,
+      funding_evidence: built.funding.evidence,
+      funding_excerpt: built.funding.excerpt,
+      international_allowed: built.intl.allowed,
+      eligibility_confidence: built.intl.confidence,
+      eligibility_notes: null,
+      eligibility_evidence: built.intl.evidence,
+      eligibility_excerpt: built.intl.excerpt,
+      start_term: built.startTerm,
+      deadline_date: built.deadline.date,
+      deadline_confidence: built.deadline.confidence,
+      deadline_evidence: built.deadline.evidence,
+      deadline_excerpt: built.deadline.excerpt,
+      funding_score: built.funding.score,
+      eligibility_score: built.intl.score,
+      deadline_score: built.deadline.score,
+      confidence_factors: { funding: built.funding.factors, eligibility: built.intl.factors, deadline: built.deadline.factors },
+      application_url: built.appUrl ?? args.canonicalUrl,
+      source_url: args.source.base_url,
+      canonical_url: args.canonicalUrl,
+      url_key: urlKey,
+      fragment_id: built.fragmentId,
+      last_verified_at: new Date().toISOString(),
+      freshness_score: 80,
+      status: decision.status,
+      status_reason: decision.reason,
+      ...liveness,
+      content_hash: built.contentHash,
+      fingerprint: built.fingerprint,
+      fingerprint_bands: fingerprintBands(built.fingerprint),
+      page_last_modified: built.pageLastModified,
+      etag: built.etag,
+    };
   });
 
-  const payload = {
-    program_type: args.programType,
-    country: 'Canada',
-    province: null,
-    city: null,
-    institution_name: built.institution,
-    department: null,
-    lab_group: null,
-    title_clean: built.titleClean,
-    nutshell_15_words: built.nutshell,
-    funding_type: built.funding.type,
-    funding_confidence: built.funding.confidence,
-    funding_evidence: built.funding.evidence,
-    international_allowed: built.intl.allowed,
-    eligibility_confidence: built.intl.confidence,
-    eligibility_notes: null,
-    eligibility_evidence: built.intl.evidence,
-    start_term: built.startTerm,
-    deadline_date: built.deadline.date,
-    deadline_confidence: built.deadline.confidence,
-    deadline_evidence: built.deadline.evidence,
-    application_url: built.appUrl ?? args.url,
-    source_url: args.source.base_url,
-    canonical_url: args.url,
-    last_verified_at: new Date().toISOString(),
-    freshness_score: 80,
-    status: decision.status,
-    status_reason: decision.reason,
-    content_hash: built.contentHash,
-    page_last_modified: built.pageLastModified,
-    etag: built.etag,
-  };
+  if (args.ctx.trace) {
+    const { records } = args.ctx.trace;
+    payloads.forEach((record, i) => records.push({ record, decision: decisions[i] }));
+  }
+
+  await args.ctx.writers?.upserts.add({ fetchLogId: args.fetchLogId, payloads });
+  return stats;
+}
 
-  const { error: upsertError } = await supabase
+type PageUpsert = { fetchLogId: string | null; payloads: CanadaOpportunityInsert[] };
+
+// A page that loaded can only carry a closed notice; no notice is a clean read.
+function pageCheck(signal: TerminalSignal | null) {
+  return signal ? { kind: 'terminal' as const, signal } : { kind: 'healthy' as const };
+}
+
+// Continues the stored row's liveness with this read of the page: a closed notice seen
+// again extends its streak, a clean read resets it.
+function withLiveness(payload: CanadaOpportunityInsert, previous: LivenessState, thresholds: LivenessThresholds) {
+  const { transition, ...liveness } = nextLiveness(previous, pageCheck(payload.terminal_signal ?? null), thresholds);
+  return { ...payload, ...liveness, ...(transition ? { status: transition.status, status_reason: transition.reason } : {}) };
+}
+
+function opportunityKey(row: { program_type: string; url_key: string; fragment_id?: string }) {
+  return `${row.program_type}|${row.url_key}|${row.fragment_id ?? ''}`;
+}
+
+// Writes the rows of several pages in one upsert, keeping revision history for rows
+// that already existed, then re-clusters near duplicates once for the whole batch.
+async function writeOpportunities(pages: PageUpsert[]): Promise<void[]> {
+  const supabase = canadaSupabase();
+
+  // Two pages resolving to the same canonical URL in one batch: the later one wins.
+  const byKey = new Map<string, { payload: CanadaOpportunityInsert; fetchLogId: string | null }>();
+  for (const page of pages) {
+    for (const payload of page.payloads) byKey.set(opportunityKey(payload), { payload, fetchLogId: page.fetchLogId });
+  }
+  const programTypes = Array.from(new Set(Array.from(byKey.values(), (v) => v.payload.program_type)));
+  const urlKeys = Array.from(new Set(Array.from(byKey.values(), (v) => v.payload.url_key)));
+
+  // Current values of rows these pages already produced, so re-discovery keeps history too.
+  const previousByKey = new Map<string, RevisionSnapshot & LivenessState>();
+  for (let i = 0; i < urlKeys.length; i += 100) {
+    const { data: previous, error: previousError } = await supabase
+      .from('canada_opportunity')
+      .select(`program_type,url_key,fragment_id,consecutive_failures,terminal_signal,terminal_signal_count,${REVISION_COLUMNS}`)
+      .in('program_type', programTypes)
+      .in('url_key', urlKeys.slice(i, i + 100))
+      .returns<Array<RevisionSnapshot & LivenessState & { program_type: string; url_key: string; fragment_id: string }>>();
+    if (previousError) throw new Error(previousError.message);
+    for (const row of previous ?? []) previousByKey.set(opportunityKey(row), row);
+  }
+
+  const thresholds = livenessThresholdsFromEnv();
+  for (const [key, entry] of byKey) {
+    const before = previousByKey.get(key);
+    if (before) entry.payload = withLiveness(entry.payload, before, thresholds);
+  }
+  const payloads = Array.from(byKey.values(), (v) => v.payload);
+
+  const { data: upserted, error: upsertError } = await supabase
     .from('canada_opportunity')
-    .upsert(payload, { onConflict: 'canonical_url,program_type' });
+    .upsert(payloads, { onConflict: 'program_type,url_key,fragment_id' })
+    .select('id,program_type,url_key,fragment_id');
 
   if (upsertError) {
     throw new Error(upsertError.message);
   }
 
+  const revisions = (upserted ?? []).flatMap((row) => {
+    const key = opportunityKey(row);
+    const before = previousByKey.get(key);
+    const after = byKey.get(key);
+    if (!before || !after) return [];
+    const revision = buildRevision({
+      opportunityId: row.id,
+      before,
+      after: after.payload as RevisionSnapshot,
+      fetchLogId: after.fetchLogId,
+      contentHash: after.payload.content_hash,
+    });
+    return revision ? [revision] : [];
+  });
+  await insertRevisions(supabase, revisions);
+
+  await resolveNearDuplicates((upserted ?? []).map((r) => r.id));
+
+  return pages.map(() => undefined);
+}
+
+type DiscoverContext = {
+  http: CanadaHttpClient;
+  // Runs page fetches in parallel across hosts, one at a time per host.
+  scheduler: HostScheduler;
+  // Null for test crawls, which need no database and write nothing.
+  writers: PageWriters | null;
+  // Set for test crawls: outcomes are collected here instead.
+  trace: DiscoverTrace | null;
+  summary: DiscoverSummary;
+  search: SearchProvider;
+  // url_keys of every configured source, so links to them are not proposed again.
+  knownSources: Set<string>;
+  // Epoch ms when the invocation's time budget ends.
+  deadline: number;
+  // Persists progress after each page; null when the crawl is not resumable.
+  checkpoint: (() => Promise<void>) | null;
+};
+
+const UPSERT_BATCH = { maxSize: 20, lingerMs: 300 };
+
+type PageWriters = {
+  writeFetchLog: ReturnType<typeof createFetchLogWriter>;
+  upserts: WriteBatcher<PageUpsert, void>;
+};
+
+function pageWriters(): PageWriters {
   return {
-    accepted: decision.status === 'ACTIVE' || decision.status === 'NEEDS_REVIEW' ? 1 : 0,
-    blocked: decision.status === 'BLOCKED' ? 1 : 0,
-    expired: decision.status === 'EXPIRED' ? 1 : 0,
+    writeFetchLog: createFetchLogWriter(canadaSupabase()),
+    upserts: new WriteBatcher<PageUpsert, void>(writeOpportunities, UPSERT_BATCH),
   };
 }
 
-export async function runCanadaDiscover(programType?: CanadaProgramType) {
-  const supabase = canadaSupabase();
-  const http = new CanadaHttpClient();
+// At most one checkpoint write in flight; calls made meanwhile share the next one,
+// which saves the state as it is when it starts.
+function coalesce(save: () => Promise<void>) {
+  let running: Promise<void> | null = null;
+  let queued: Promise<void> | null = null;
+  const call = (): Promise<void> => {
+    if (!running) {
+      running = save().finally(() => {
+        running = null;
+      });
+      return running;
+    }
+    queued ??= running
+      .catch(() => undefined)
+      .then(() => {
+        queued = null;
+        return call();
+      });
+    return queued;
+  };
+  return call;
+}
 
-  const { data: sources, error } = await supabase
-    .from('canada_sources')
-    .select('*')
-    .eq('active', true)
-    .returns<CanadaSourceRow[]>();
+export type DiscoverSummary = {
+  mode: CanadaDiscoverMode;
+  sources: number;
+  urlsVisited: number;
+  accepted: number;
+  blocked: number;
+  expired: number;
+  listings: number;
+  irrelevant: number;
+  byDepth: DepthStats[];
+  sitemapUrls: number;
+  skippedUnchanged: number;
+  // Sources whose seed is backing off after empty runs.
+  deferred: number;
+  // GOOGLE_SEED results kept after filtering to Canadian academic hosts.
+  searchResults: number;
+  // OPPORTUNISTIC candidates inserted for review.
+  proposedSources: number;
+  // The run stopped at CANADA_CRAWL_MAX_REQUESTS; sources not reached were dropped.
+  requestCapReached: boolean;
+};
+
+function addStats(summary: DiscoverSummary, stats: UpsertStats, kind: CanadaPageKind | null) {
+  summary.urlsVisited += 1;
+  summary.accepted += stats.accepted;
+  summary.blocked += stats.blocked;
+  summary.expired += stats.expired;
+  if (kind === 'LISTING') summary.listings += 1;
+  if (kind === 'IRRELEVANT') summary.irrelevant += 1;
+}
 
+// OPPORTUNISTIC: links from a crawled page to another Canadian institution that look
+// like openings are stored as inactive, PENDING sources for review. Returns how many
+// new candidates were inserted.
+async function proposeSources(
+  source: CanadaSourceRow,
+  pageUrl: string,
+  links: Array<{ url: string; text: string }>,
+  limit: number,
+  ctx: DiscoverContext,
+) {
+  const pageDomain = registrableDomain(pageUrl);
+  const candidates: string[] = [];
+  for (const link of links) {
+    if (candidates.length >= limit) break;
+    const url = cleanUrl(link.url);
+    if (!url || !isCanadianAcademicUrl(url) || registrableDomain(url) === pageDomain) continue;
+    if (!CANDIDATE_LINK.test(foldText(`${link.text} ${new URL(url).pathname}`))) continue;
+    const key = visitKey(url);
+    if (ctx.knownSources.has(key)) continue;
+    ctx.knownSources.add(key);
+    candidates.push(url);
+  }
+  if (candidates.length === 0) return 0;
+  if (ctx.trace) {
+    ctx.trace.proposals.push(...candidates);
+    ctx.summary.proposedSources += candidates.length;
+    return candidates.length;
+  }
+
+  const supabase = canadaSupabase();
+  const { data, error } = await supabase
+    .from('canada_sources')
+    .upsert(
+      candidates.map((url) => ({
+        program_type: source.program_type,
+        strategy: 'OPPORTUNISTIC' as const,
+        base_url: url,
+        max_depth: 1,
+        active: false,
+        review_status: 'PENDING' as const,
+        proposed_from: pageUrl,
+        notes: `Linked from ${pageUrl}`,
+      })),
+      { onConflict: 'program_type,strategy,base_url', ignoreDuplicates: true },
+    )
+    .select('id');
   if (error) throw new Error(error.message);
 
-  const filteredSources = (sources ?? []).filter((s) => !programType || s.program_type === programType);
+  const inserted = data?.length ?? 0;
+  ctx.summary.proposedSources += inserted;
+  return inserted;
+}
+
+function emptySummary(mode: CanadaDiscoverMode, sources: number): DiscoverSummary {
+  return {
+    mode,
+    sources,
+    urlsVisited: 0,
+    accepted: 0,
+    blocked: 0,
+    expired: 0,
+    listings: 0,
+    irrelevant: 0,
+    byDepth: [],
+    sitemapUrls: 0,
+    skippedUnchanged: 0,
+    deferred: 0,
+    searchResults: 0,
+    proposedSources: 0,
+    requestCapReached: false,
+  };
+}
+
+function addDepthStats(summary: DiscoverSummary, depth: number, stats: UpsertStats, kind: CanadaPageKind | null) {
+  const depthStats =
+    summary.byDepth[depth] ??
+    (summary.byDepth[depth] = { depth, urlsVisited: 0, accepted: 0, blocked: 0, expired: 0, listings: 0, irrelevant: 0 });
+  depthStats.urlsVisited += 1;
+  depthStats.accepted += stats.accepted;
+  depthStats.blocked += stats.blocked;
+  depthStats.expired += stats.expired;
+  if (kind === 'LISTING') depthStats.listings += 1;
+  if (kind === 'IRRELEVANT') depthStats.irrelevant += 1;
+}
 
-  const summary = { sources: filteredSources.length, urlsVisited: 0, accepted: 0, blocked: 0, expired: 0 };
+function timeLeft(ctx: DiscoverContext) {
+  return ctx.deadline - Date.now();
+}
 
-  for (const source of filteredSources) {
-    summary.urlsVisited += 1;
+function addOutcome(outcome: SeedRunOutcome, stats: UpsertStats) {
+  outcome.urlsVisited += 1;
+  outcome.accepted += stats.accepted;
+  outcome.blocked += stats.blocked;
+  outcome.expired += stats.expired;
+}
 
-    const fetched = await http.fetchPage({
-      url: source.base_url,
-      canonicalUrl: source.base_url,
-      timeoutMs: 20_000,
-      minDelayMs: source.min_delay_ms,
-      maxBytes: 450_000,
-      conditional: { etag: null, lastModified: null },
-      respectRobots: source.respect_robots,
-    });
+// GOOGLE_SEED: the seed_key is a search query; results on Canadian institution
+// hosts become crawl seeds, each expanded only if it lists postings.
+async function searchSeeds(source: CanadaSourceRow, ctx: DiscoverContext): Promise<FrontierItem[]> {
+  if (!source.seed_key) return [];
+  const results = await ctx.search.search(source.seed_key, { limit: MAX_SEARCH_RESULTS });
+
+  const seen = new Set<string>();
+  const seeds: FrontierItem[] = [];
+  for (const result of results) {
+    const url = cleanUrl(result.url);
+    if (!url || !isCanadianAcademicUrl(url) || !urlAllowed(url, source)) continue;
+    const key = visitKey(url);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    seeds.push({ url, depth: 0 });
+  }
 
-    await supabase.from('canada_fetch_logs').insert({
-      action: 'DISCOVER',
-      status: fetched.status,
-      program_type: source.program_type,
-      source_id: source.id,
-      canonical_url: source.base_url,
-      fetched_url: fetched.fetchedUrl,
-      http_status: fetched.httpStatus,
-      elapsed_ms: fetched.elapsedMs,
-      response_bytes: fetched.responseBytes,
-      etag: fetched.etag,
-      page_last_modified: fetched.lastModified,
-      content_hash: fetched.bodyText ? computeContentHash(fetched.bodyText.slice(0, 20000)) : null,
-      blocked_reason: fetched.blockedReason,
-      error_message: fetched.errorMessage,
-    });
+  ctx.summary.searchResults += seeds.length;
+  return seeds;
+}
+
+function sameInstant(a: string | null, b: string | null) {
+  if (!a || !b) return false;
+  const ta = Date.parse(a);
+  const tb = Date.parse(b);
+  return Number.isFinite(ta) && ta === tb;
+}
+
+// SITEMAP: reads more of the source's sitemaps, until the invocation's deadline, and
+// queues entries on its host up to the budget, skipping those whose lastmod matches the
+// stored row. The cursor is dropped once it has nothing left or the budget is filled.
+async function sitemapSeeds(source: CanadaSourceRow, frontier: SourceFrontier, ctx: DiscoverContext) {
+  const { http, summary } = ctx;
+  const cursor = frontier.sitemaps as SitemapCursor;
 
-    if (fetched.status !== 'OK' || !fetched.bodyText) {
+  const found = await readSitemaps(cursor, {
+    baseUrl: source.base_url,
+    userAgent: http.userAgent,
+    timeoutMs: 20_000,
+    deadline: ctx.deadline - MIN_PAGE_MS,
+    hostState: http.hostState,
+    fetch: http.fetch,
+    fetchSitemap: (url, init) =>
+      http.fetchPolitely(url, init, {
+        minDelayMs: source.min_delay_ms,
+        maxWaitMs: Math.min(PAGE_RETRY_BUDGET_MS, timeLeft(ctx)),
+      }),
+  });
+  const seen = new Set(frontier.visited);
+  const entries = found
+    .map((e) => ({ ...e, loc: cleanUrl(e.loc) ?? e.loc }))
+    .filter((e) => {
+      const key = visitKey(e.loc);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .filter((e) => sameHost(e.loc, source.base_url))
+    .filter((e) => urlAllowed(e.loc, source));
+  summary.sitemapUrls += entries.length;
+
+  // A test crawl has no stored rows to compare with and fetches every entry.
+  const lastModifiedByUrl = new Map<string, string | null>();
+  for (let i = 0; ctx.writers && i < entries.length; i += 100) {
+    const { data: known, error } = await canadaSupabase()
+      .from('canada_opportunity')
+      .select('url_key,page_last_modified')
+      .eq('program_type', source.program_type)
+      .in('url_key', entries.slice(i, i + 100).map((e) => visitKey(e.loc)))
+      .returns<Array<{ url_key: string; page_last_modified: string | null }>>();
+
+    if (error) throw new Error(error.message);
+    for (const row of known ?? []) lastModifiedByUrl.set(row.url_key, row.page_last_modified);
+  }
+
+  let unchanged = 0;
+  const full = () => frontier.requests + frontier.queue.length >= frontier.budget;
+  for (const entry of entries) {
+    if (full()) break;
+
+    if (sameInstant(entry.lastmod, lastModifiedByUrl.get(visitKey(entry.loc)) ?? null)) {
+      unchanged += 1;
       continue;
     }
+    frontier.queue.push({ url: entry.loc, depth: 0, lastModified: entry.lastmod });
+    frontier.visited.push(visitKey(entry.loc));
+  }
+  summary.skippedUnchanged += unchanged;
+  frontier.outcome.unchanged += unchanged;
+  if (full() || sitemapsDone(cursor)) frontier.sitemaps = null;
+}
+
+async function startSource(
+  source: CanadaSourceRow,
+  budget: number,
+  mode: CanadaDiscoverMode,
+  ctx: DiscoverContext,
+): Promise<SourceFrontier> {
+  let expand: SourceFrontier['expand'];
+  let seeds: FrontierItem[] = [];
+  let sitemaps: SitemapCursor | null = null;
+  if (source.strategy === 'GOOGLE_SEED') {
+    expand = 'LISTINGS';
+    seeds = await searchSeeds(source, ctx);
+  } else if (mode === 'SITEMAP') {
+    // The sitemaps are read by advanceSource, so that this can be resumed too.
+    expand = 'NONE';
+    sitemaps = newSitemapCursor();
+  } else {
+    expand = 'SEEDS_AND_LISTINGS';
+    seeds = [{ url: source.base_url, depth: 0 }];
+  }
 
-    const baseStats = await upsertFromHtml({
+  return {
+    source_id: source.id,
+    budget,
+    expand,
+    queue: seeds,
+    sitemaps,
+    visited: seeds.map((s) => visitKey(s.url)),
+    requests: 0,
+    proposals: 0,
+    outcome: { urlsVisited: 0, accepted: 0, blocked: 0, expired: 0, unchanged: 0 },
+  };
+}
+
+// Breadth-first through the source's queue, staying on each page's host, until the
+// budget is spent, the queue is empty or the scheduler stops taking pages. A SITEMAP
+// source first reads more of its sitemaps into the queue. Pages are
+// handed to the scheduler as soon as they are queued, and leave the queue only once
+// written, so a checkpoint never loses a page in flight. Returns whether the source is
+// finished; if not, the frontier holds where to resume.
+async function advanceSource(source: CanadaSourceRow, frontier: SourceFrontier, ctx: DiscoverContext) {
+  const { summary } = ctx;
+  if (frontier.sitemaps) {
+    await sitemapSeeds(source, frontier, ctx);
+    // Out of time before the sitemaps were read; what is queued waits for them.
+    if (frontier.sitemaps) return false;
+  }
+  const visited = new Set(frontier.visited);
+  const scheduled = new Set<FrontierItem>();
+  const pending: Array<Promise<void>> = [];
+  let interrupted = false;
+
+  const visit = async (item: FrontierItem) => {
+    const page = await fetchAndUpsertOne({
       programType: source.program_type,
       source,
-      url: source.base_url,
-      html: fetched.bodyText,
-      etag: fetched.etag,
-      lastModified: fetched.lastModified,
+      url: item.url,
+      ctx,
+      fallbackLastModified: item.lastModified,
     });
-    summary.accepted += baseStats.accepted;
-    summary.blocked += baseStats.blocked;
-    summary.expired += baseStats.expired;
-
-    const links = extractLinks(fetched.bodyText, source.base_url)
-      .filter((u) => sameHost(u, source.base_url))
-      .filter((u) => urlAllowed(u, source));
-
-    const unique = Array.from(new Set(links)).slice(0, source.max_requests_per_run);
-
-    for (const url of unique) {
-      summary.urlsVisited += 1;
-      const stats = await fetchAndUpsertOne({ programType: source.program_type, source, url, http });
-      summary.accepted += stats.accepted;
-      summary.blocked += stats.blocked;
-      summary.expired += stats.expired;
+    scheduled.delete(item);
+    if (!page) {
+      interrupted = true;
+      return;
+    }
+    const { stats, html, kind } = page;
+    frontier.queue.splice(frontier.queue.indexOf(item), 1);
+    frontier.requests += 1;
+    addStats(summary, stats, kind);
+    addOutcome(frontier.outcome, stats);
+
+    if (frontier.expand !== 'NONE') {
+      addDepthStats(summary, item.depth, stats, kind);
+
+      if (html) {
+        const links = extractLinks(html, item.url);
+        if (kind !== 'IRRELEVANT' && frontier.proposals < MAX_PROPOSALS_PER_SOURCE) {
+          const limit = MAX_PROPOSALS_PER_SOURCE - frontier.proposals;
+          frontier.proposals += await proposeSources(source, item.url, links, limit, ctx);
+        }
+
+        const expandable = kind === 'LISTING' || (item.depth === 0 && frontier.expand === 'SEEDS_AND_LISTINGS');
+        if (item.depth < source.max_depth && expandable) {
+          for (const link of links) {
+            if (!sameHost(link.url, item.url) || !urlAllowed(link.url, source)) continue;
+            const key = visitKey(link.url);
+            if (visited.has(key)) continue;
+            visited.add(key);
+            frontier.visited.push(key);
+            frontier.queue.push({ url: cleanUrl(link.url) ?? link.url, depth: item.depth + 1 });
+          }
+        }
+      }
     }
+
+    fill();
+    await ctx.checkpoint?.();
+  };
+
+  const fill = () => {
+    for (const item of frontier.queue) {
+      if (interrupted || frontier.requests + scheduled.size >= frontier.budget) return;
+      if (scheduled.has(item)) continue;
+      scheduled.add(item);
+      pending.push(visit(item));
+    }
+  };
+
+  fill();
+  // Pages queue their links before settling, so this sees every page of the source.
+  let failure: unknown = null;
+  for (let i = 0; i < pending.length; i += 1) {
+    await pending[i].catch((e: unknown) => {
+      interrupted = true;
+      failure ??= e;
+    });
+  }
+  if (failure) throw failure;
+
+  return !interrupted;
+}
+
+// Works on the open run for this scope and mode, starting one when there is none,
+// until the time budget runs out; the next call resumes from the checkpoint. Several
+// plan sources run side by side so that fetches to different hosts overlap.
+export async function runCanadaDiscover(args?: {
+  programType?: CanadaProgramType;
+  mode?: CanadaDiscoverMode;
+  searchProvider?: SearchProvider;
+  timeBudgetMs?: number;
+  // Fetches in flight at once; defaults to CANADA_CRAWL_CONCURRENCY.
+  concurrency?: number;
+}): Promise<CrawlRunProgress> {
+  const mode = args?.mode ?? 'CRAWL';
+  const programType = args?.programType ?? null;
+  const timeBudgetMs = args?.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS;
+  const deadline = Date.now() + timeBudgetMs;
+  const leaseMs = timeBudgetMs + LEASE_MARGIN_MS;
+  const limits = schedulerLimitsFromEnv();
+  const maxInFlight = Math.max(1, args?.concurrency ?? limits.maxInFlight);
+  const supabase = canadaSupabase();
+  const http = new CanadaHttpClient({ hostState: new SupabaseHostStateStore(supabase) });
+
+  // All sources, including inactive and pending ones, so known URLs are not proposed twice.
+  const { data: sources, error } = await supabase.from('canada_sources').select('*').returns<CanadaSourceRow[]>();
+
+  if (error) throw new Error(error.message);
+
+  let claimed = await claimCrawlRun(supabase, { programType, mode, leaseMs });
+  if (!claimed) {
+    const filteredSources = (sources ?? []).filter((s) => s.active && (!programType || s.program_type === programType));
+    const { scheduled, deferred } = scheduleSources(filteredSources, await loadSeedStats(supabase, args?.programType));
+    const summary = emptySummary(mode, filteredSources.length);
+    summary.deferred = deferred.length;
+
+    claimed = await createCrawlRun(supabase, {
+      programType,
+      mode,
+      plan: scheduled.map(({ source, budget }) => ({ source_id: source.id, budget })),
+      summary,
+      leaseMs,
+    });
+  }
+  if (!claimed) {
+    // Another invocation holds the open run.
+    const open = await findOpenCrawlRun(supabase, { programType, mode });
+    if (!open) throw new Error('Crawl run is neither claimable nor open');
+    return crawlRunProgress(open, true);
   }
 
-  return summary;
+  const run = claimed;
+  const ctx: DiscoverContext = {
+    http,
+    scheduler: new HostScheduler({
+      maxInFlight,
+      // The request cap covers the whole run, across invocations.
+      maxRequests: Math.max(0, limits.maxRequests - run.summary.urlsVisited),
+      deadline: deadline - MIN_PAGE_MS,
+      backoffMs: (host) => http.backoffRemainingMs(host),
+    }),
+    writers: pageWriters(),
+    trace: null,
+    summary: run.summary,
+    search: args?.searchProvider ?? createSearchProvider(),
+    knownSources: new Set((sources ?? []).map((s) => visitKey(s.base_url))),
+    deadline,
+    checkpoint: coalesce(() => checkpointCrawlRun(supabase, run, leaseMs)),
+  };
+  const sourceById = new Map((sources ?? []).map((s) => [s.id, s]));
+
+  const working = new Set<Promise<void>>();
+  let stopped = false;
+  let failure: unknown = null;
+
+  const work = async (frontier: SourceFrontier) => {
+    // Dropped if it was deactivated or deleted since the run was planned.
+    const source = sourceById.get(frontier.source_id);
+    if (source?.active) {
+      if (!(await advanceSource(source, frontier, ctx))) {
+        stopped = true;
+        return;
+      }
+      await recordSeedRun(source, frontier.outcome);
+    }
+    run.frontiers.splice(run.frontiers.indexOf(frontier), 1);
+    await ctx.checkpoint?.();
+  };
+  const launch = (frontier: SourceFrontier) => {
+    const task: Promise<void> = work(frontier)
+      .catch((e: unknown) => {
+        stopped = true;
+        failure ??= e;
+      })
+      .finally(() => working.delete(task));
+    working.add(task);
+  };
+
+  run.frontiers.forEach(launch);
+  for (;;) {
+    // One source per fetch slot, so there is usually another host to go to.
+    while (!stopped && working.size < maxInFlight && run.cursor < run.plan.length) {
+      if (!ctx.scheduler.accepting || timeLeft(ctx) < MIN_PAGE_MS) {
+        stopped = true;
+        break;
+      }
+      const entry = run.plan[run.cursor];
+      const source = sourceById.get(entry.source_id);
+      let frontier: SourceFrontier | null = null;
+      try {
+        if (source?.active) frontier = await startSource(source, entry.budget, mode, ctx);
+      } catch (e) {
+        stopped = true;
+        failure ??= e;
+        break;
+      }
+      run.cursor += 1;
+      if (frontier) {
+        run.frontiers.push(frontier);
+        launch(frontier);
+      }
+    }
+    if (working.size === 0) break;
+    await Promise.race(working);
+  }
+
+  if (failure) {
+    await failCrawlInvocation(supabase, run, failure instanceof Error ? failure.message : String(failure));
+    throw failure;
+  }
+
+  // Out of requests for the run: what is left is dropped, not resumed.
+  if (run.summary.urlsVisited >= limits.maxRequests) {
+    for (const frontier of run.frontiers) {
+      const source = sourceById.get(frontier.source_id);
+      if (source?.active) await recordSeedRun(source, frontier.outcome);
+    }
+    run.summary.requestCapReached = true;
+    run.cursor = run.plan.length;
+    run.frontiers = [];
+  }
+
+  await finishCrawlInvocation(supabase, run);
+  return crawlRunProgress(run, false);
+}
+
+// Runs discovery for one source, saved or not, within one invocation's time budget and
+// without writing anything: host state is read but changes stay in memory, and the
+// fetches, extracted rows and gate decisions are returned.
+export async function testCrawlSource(
+  source: CanadaSourceRow,
+  args?: {
+    mode?: CanadaDiscoverMode;
+    maxRequests?: number;
+    searchProvider?: SearchProvider;
+    archive?: HttpArchiveOptions | null;
+    timeBudgetMs?: number;
+  },
+) {
+  const mode = args?.mode ?? 'CRAWL';
+  const trace: DiscoverTrace = { fetches: [], records: [], proposals: [] };
+  const summary = emptySummary(mode, 1);
+  const budget = Math.max(1, Math.min(args?.maxRequests ?? source.max_requests_per_run, source.max_requests_per_run));
+  const deadline = Date.now() + (args?.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS);
+  const archive = args?.archive === undefined ? httpArchiveFromEnv() : args.archive;
+  // A live test crawl honours the backoff real runs have set, and leaves it as it was.
+  const http = new CanadaHttpClient({
+    archive,
+    hostState: archive ? undefined : new ReadOnlyHostStateStore(new SupabaseHostStateStore(canadaSupabase())),
+  });
+  const ctx: DiscoverContext = {
+    http,
+    // One fetch at a time, so the trace lists pages in crawl order.
+    scheduler: new HostScheduler({
+      maxInFlight: 1,
+      maxRequests: budget,
+      deadline: deadline - MIN_PAGE_MS,
+      backoffMs: (host) => http.backoffRemainingMs(host),
+    }),
+    writers: null,
+    trace,
+    summary,
+    search: args?.searchProvider ?? createSearchProvider(),
+    knownSources: new Set([visitKey(source.base_url)]),
+    deadline,
+    checkpoint: null,
+  };
+
+  await advanceSource(source, await startSource(source, budget, mode, ctx), ctx);
+
+  return { summary, ...trace };
 }
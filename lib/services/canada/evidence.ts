@@ -0,0 +1,126 @@
+import * as cheerio from 'cheerio';
+import type { CanadaEvidenceExcerpt } from '../../../src/lib/canada/types';
+import { foldText } from './content';
+
+export type EvidenceSpan = { start: number; end: number };
+
+const MAX_SIDE_CHARS = 160;
+// extractText() drops the whitespace between blocks, so "apply.Application" also ends a sentence.
+const SENTENCE_END = /[.!?](?=\s|$|\p{Lu})/gu;
+const SENTENCE_END_ONE = /[.!?](?=\s|$|\p{Lu})/u;
+
+export type FoldedText = { folded: string; offsets: number[] };
+
+// Folds one character at a time so every folded index maps back to the original
+// text; decomposed accents fold to nothing and are skipped.
+export function foldWithOffsets(text: string): FoldedText {
+  let folded = '';
+  const offsets: number[] = [];
+  let i = 0;
+  for (const ch of text) {
+    const f = foldText(ch);
+    for (let k = 0; k < f.length; k += 1) offsets.push(i);
+    folded += f;
+    i += ch.length;
+  }
+  offsets.push(text.length);
+  return { folded, offsets };
+}
+
+// First pattern (in order) that matches the folded text, as a span of the original.
+export function matchFolded({ folded, offsets }: FoldedText, patterns: RegExp[]): EvidenceSpan | null {
+  for (const pattern of patterns) {
+    const m = new RegExp(pattern.source, pattern.flags.replace('g', '')).exec(folded);
+    if (m) return { start: offsets[m.index], end: offsets[m.index + m[0].length] };
+  }
+  return null;
+}
+
+// The sentence around a span, bounded so pages without punctuation still give a short quote.
+function sentenceAround(text: string, span: EvidenceSpan) {
+  const windowStart = Math.max(0, span.start - MAX_SIDE_CHARS);
+  const lastEnd = Array.from(text.slice(windowStart, span.start).matchAll(SENTENCE_END)).pop();
+  let start = lastEnd?.index !== undefined ? windowStart + lastEnd.index + 1 : windowStart;
+
+  const nextEnd = text.slice(span.end, span.end + MAX_SIDE_CHARS).search(SENTENCE_END_ONE);
+  let end = nextEnd >= 0 ? span.end + nextEnd + 1 : Math.min(text.length, span.end + MAX_SIDE_CHARS);
+
+  while (start < span.start && /\s/.test(text[start])) start += 1;
+  while (end > span.end && /\s/.test(text[end - 1])) end -= 1;
+  return { start, end };
+}
+
+function collapse(text: string) {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+// Smallest element whose text holds the needle: descend while a child still does.
+function containingElement($: cheerio.CheerioAPI, needle: string) {
+  const target = collapse(needle);
+  if (!target) return null;
+  let current = $('body').first();
+  if (current.length === 0 || !collapse(current.text()).includes(target)) return null;
+  for (;;) {
+    const child = current
+      .children()
+      .filter((_, c) => collapse($(c).text()).includes(target))
+      .first();
+    if (child.length === 0) return current;
+    current = child;
+  }
+}
+
+// Path from the nearest ancestor with an id (also returned as the link anchor), else from body.
+function cssPath(el: NonNullable<ReturnType<typeof containingElement>>) {
+  const parts: string[] = [];
+  let anchor: string | null = null;
+  for (let node = el; node.length > 0 && !node.is('html'); node = node.parent()) {
+    const id = node.attr('id');
+    if (id) {
+      parts.unshift(`#${id}`);
+      anchor = id;
+      break;
+    }
+    const tag = String(node.prop('tagName') ?? '').toLowerCase();
+    if (tag === 'body') {
+      parts.unshift('body');
+      break;
+    }
+    const sameTag = node.parent().children(tag);
+    parts.unshift(sameTag.length > 1 ? `${tag}:nth-of-type(${sameTag.index(node) + 1})` : tag);
+  }
+  return { selector: parts.join(' > '), anchor };
+}
+
+// Returns a builder bound to one page: the quote, offsets and location of a span of
+// the posting's text. The sentence is located first because short phrases
+// ("stipend") often repeat on a page.
+export function createExcerptBuilder(html: string) {
+  const $ = cheerio.load(html);
+  $('script,style,noscript,svg').remove();
+
+  return (text: string, span: EvidenceSpan | null): CanadaEvidenceExcerpt | null => {
+    if (!span || span.end <= span.start) return null;
+    const sentence = sentenceAround(text, span);
+    const quote = text.slice(sentence.start, sentence.end);
+    const el = containingElement($, quote) ?? containingElement($, text.slice(span.start, span.end));
+    const location = el ? cssPath(el) : { selector: null, anchor: null };
+
+    return {
+      quote,
+      start: sentence.start,
+      end: sentence.end,
+      match_start: span.start - sentence.start,
+      match_end: span.end - sentence.start,
+      selector: location.selector,
+      anchor: location.anchor,
+    };
+  };
+}
+
+// The sentence holding a span, for the plain-text *_evidence columns.
+export function evidenceQuote(text: string, span: EvidenceSpan | null) {
+  if (!span) return null;
+  const sentence = sentenceAround(text, span);
+  return text.slice(sentence.start, sentence.end);
+}
@@ -1,11 +1,19 @@
 import * as cheerio from 'cheerio';
 import type {
-  CanadaConfidence,
   CanadaFundingType,
+  CanadaLanguage,
   CanadaProgramType,
   CanadaTriState,
 } from '../../../src/lib/canada/constants';
-import { computeContentHash, extractH1, extractText, resolveUrl } from './content';
+import { CANADA_LANGUAGES } from '../../../src/lib/canada/constants';
+import { closedNotice, computeContentHash, extractH1, extractMainText, extractText, foldText, resolveUrl } from './content';
+import { lookupInstitution, registrableDomain } from './institutions';
+import { segmentPostings } from './segment';
+import { fingerprint } from './fingerprint';
+import { createExcerptBuilder, evidenceQuote, foldWithOffsets, matchFolded, type EvidenceSpan } from './evidence';
+import { scoreSignals, withContext, type ConfidenceSignalInput, type ScoredConfidence } from './confidence';
+import type { CanadaPageKind } from './types';
+import { extractDeadline as parseDeadline, type DeadlineKind } from '../deadlineParser';
 
 function takeWords(text: string, maxWords: number) {
   const parts = text
@@ -17,69 +25,170 @@ function takeWords(text: string, maxWords: number) {
 }
 
 export function inferInstitutionFromUrl(url: string) {
-  try {
-    const host = new URL(url).hostname.replace(/^www\./, '');
-    const parts = host.split('.');
-    if (parts.length >= 2) return parts[0].toUpperCase();
-    return host.toUpperCase();
-  } catch {
-    return 'TBA';
-  }
+  const known = lookupInstitution(url);
+  if (known) return known.name;
+  // Unknown host: name it after the registrable domain, not a lab subdomain.
+  const domain = registrableDomain(url);
+  return domain ? domain.split('.')[0].toUpperCase() : 'TBA';
 }
 
-export function extractDeadline(text: string): { date: string | null; confidence: CanadaConfidence; evidence: string | null } {
-  const t = text;
-  const iso = t.match(/\b(\d{4}-\d{2}-\d{2})\b/)?.[1];
-  if (iso) return { date: iso, confidence: 'HIGH', evidence: takeWords(`Deadline ${iso}`, 20) };
+type ScoredField = ScoredConfidence & { evidence: string | null; span: EvidenceSpan | null };
 
-  const m = t.match(
-    /(deadline|closing date|apply by|applications close|application deadline)[^\n]{0,160}/i,
-  )?.[0];
-  if (!m) return { date: null, confidence: 'LOW', evidence: null };
+const LABEL_WINDOW = 120;
+const FUNDING_LABEL = /(funding|financial support|financial package|compensation|salary|financement|soutien financier|remuneration)/g;
+const ELIGIBILITY_LABEL = /(eligibility|eligible|requirements|who can apply|qualifications|admissibilite|conditions d'admission|exigences)/g;
 
-  const parsed = new Date(m);
-  if (!Number.isFinite(parsed.getTime())) {
-    return { date: null, confidence: 'LOW', evidence: takeWords(m, 20) };
-  }
+// Distance from the last field label before the span, if one is close enough to count.
+function labelDistance(text: string, span: EvidenceSpan, label: RegExp) {
+  const window = foldText(text.slice(Math.max(0, span.start - LABEL_WINDOW), span.start));
+  const last = Array.from(window.matchAll(label)).pop();
+  return last?.index !== undefined ? window.length - (last.index + last[0].length) : null;
+}
 
-  const y = parsed.getUTCFullYear();
-  const mo = String(parsed.getUTCMonth() + 1).padStart(2, '0');
-  const d = String(parsed.getUTCDate()).padStart(2, '0');
-  return { date: `${y}-${mo}-${d}`, confidence: 'MEDIUM', evidence: takeWords(m, 20) };
+// Another keyword-labelled deadline with a different date elsewhere in the text.
+function conflictingDeadlines(text: string, parsed: ReturnType<typeof parseDeadline>) {
+  if (!parsed.date || parsed.start === null || parsed.end === null || parsed.distance === null) return 0;
+  const rest = `${text.slice(0, parsed.start)}${' '.repeat(parsed.end - parsed.start)}${text.slice(parsed.end)}`;
+  const other = parseDeadline(rest);
+  return other.date && other.distance !== null && other.date !== parsed.date ? 1 : 0;
 }
 
-export function extractFunding(text: string): { type: CanadaFundingType; confidence: CanadaConfidence; evidence: string | null } {
-  const t = text.toLowerCase();
-  if (/(fully funded|full funding|tuition waiver|stipend)/.test(t)) {
-    return { type: 'FUNDED', confidence: 'MEDIUM', evidence: takeWords('Fully funded / stipend', 20) };
-  }
-  if (/(partially funded|partial funding)/.test(t)) {
-    return { type: 'PARTIALLY_FUNDED', confidence: 'MEDIUM', evidence: takeWords('Partially funded', 20) };
-  }
-  if (/(external funding|bring your own funding|tri-council|nsERC|sshRC|ciHR)/i.test(text)) {
-    return { type: 'EXTERNAL_FUNDING_OK', confidence: 'MEDIUM', evidence: takeWords('External funding accepted', 20) };
-  }
-  if (/(self-funded|self funded)/.test(t)) {
-    return { type: 'SELF_FUNDED_OK', confidence: 'MEDIUM', evidence: takeWords('Self-funded possible', 20) };
-  }
-  return { type: 'UNKNOWN', confidence: 'LOW', evidence: null };
+export function extractDeadline(text: string): ScoredField & { date: string | null; kind: DeadlineKind } {
+  const parsed = parseDeadline(text);
+  if (parsed.kind === 'NONE') return { date: null, kind: 'NONE', evidence: null, span: null, ...scoreSignals([]) };
+
+  const signals: ConfidenceSignalInput[] = [
+    {
+      signal: 'text_match',
+      value: parsed.kind === 'ROLLING' ? 'rolling' : 'labelled',
+    },
+  ];
+  if (parsed.distance !== null) signals.push({ signal: 'keyword_distance', value: parsed.distance });
+  if (parsed.precision) signals.push({ signal: 'date_precision', value: parsed.precision });
+  const conflicts = conflictingDeadlines(text, parsed);
+  if (conflicts > 0) signals.push({ signal: 'conflicting_matches', value: conflicts });
+
+  const span = parsed.start !== null && parsed.end !== null ? { start: parsed.start, end: parsed.end } : null;
+  return { date: parsed.date, kind: parsed.kind, evidence: parsed.evidence, span, ...scoreSignals(signals) };
 }
 
-export function extractInternationalEligibility(text: string): { allowed: CanadaTriState; confidence: CanadaConfidence; evidence: string | null } {
-  const t = text.toLowerCase();
-  if (/(international applicants (are )?welcome|open to international applicants)/.test(t)) {
-    return { allowed: 'YES', confidence: 'MEDIUM', evidence: takeWords('International applicants welcome', 20) };
-  }
-  if (/(canadian citizens|permanent residents only|must be eligible to work in canada)/.test(t)) {
-    return { allowed: 'NO', confidence: 'MEDIUM', evidence: takeWords('Citizens/PR only', 20) };
-  }
-  return { allowed: 'UNKNOWN', confidence: 'LOW', evidence: null };
+// Patterns run on folded text (lower-case, accents stripped), English then French.
+const FUNDING_PATTERNS: Array<[Exclude<CanadaFundingType, 'UNKNOWN'>, RegExp[]]> = [
+  [
+    'FUNDED',
+    [
+      /(fully funded|full funding|tuition waiver|stipend)/,
+      /(entierement financee?s?|financement (complet|garanti|assure)|exoneration des droits|allocation de recherche|\bbourses?\b(?! externes?))/,
+    ],
+  ],
+  ['PARTIALLY_FUNDED', [/(partially funded|partial funding)/, /(partiellement financee?s?|financement partiel)/]],
+  [
+    'EXTERNAL_FUNDING_OK',
+    [
+      /(external funding|bring your own funding|tri-council|nserc|sshrc|cihr)/,
+      /(financement externe|bourses? externes?|\b(frqnt|frqsc|frqs|crsng|crsh|irsc)\b|fonds de recherche du quebec)/,
+    ],
+  ],
+  ['SELF_FUNDED_OK', [/(self-funded|self funded)/, /(autofinancee?s?|a vos (propres )?frais)/]],
+];
+
+// Scores the first matching value in pattern order; other values matched on the
+// same text count as conflicts unless they are compatible with it.
+function scoreFirstMatch<T extends string>(
+  text: string,
+  rules: Array<[T, RegExp[]]>,
+  label: RegExp,
+  compatible: (a: T, b: T) => boolean,
+) {
+  const folded = foldWithOffsets(text);
+  const matches = rules
+    .map(([value, patterns]) => ({ value, span: matchFolded(folded, patterns) }))
+    .filter((m): m is { value: T; span: EvidenceSpan } => m.span !== null);
+  const first = matches[0];
+  if (!first) return null;
+
+  const signals: ConfidenceSignalInput[] = [{ signal: 'text_match', value: 'phrase' }];
+  const distance = labelDistance(text, first.span, label);
+  if (distance !== null) signals.push({ signal: 'keyword_distance', value: distance });
+  const conflicts = matches.filter((m) => !compatible(first.value, m.value)).length;
+  if (conflicts > 0) signals.push({ signal: 'conflicting_matches', value: conflicts });
+
+  return { value: first.value, evidence: evidenceQuote(text, first.span), span: first.span, ...scoreSignals(signals) };
 }
 
+export function extractFunding(text: string): ScoredField & { type: CanadaFundingType } {
+  // Accepting external awards is compatible with any funding statement.
+  const match = scoreFirstMatch(
+    text,
+    FUNDING_PATTERNS,
+    FUNDING_LABEL,
+    (a, b) => a === b || a === 'EXTERNAL_FUNDING_OK' || b === 'EXTERNAL_FUNDING_OK',
+  );
+  if (!match) return { type: 'UNKNOWN', evidence: null, span: null, ...scoreSignals([]) };
+  const { value, ...rest } = match;
+  return { type: value, ...rest };
+}
+
+const ELIGIBILITY_PATTERNS: Array<[Exclude<CanadaTriState, 'UNKNOWN'>, RegExp[]]> = [
+  [
+    'YES',
+    [
+      /(international applicants (are )?welcome|open to international applicants)/,
+      /(candidat(e)?s internationa(l|ux|les) (sont )?(les )?bienvenu|ouverte? aux (candidat|etudiant)(e)?s (internationa|etranger)|etudiant(e)?s internationa(l|ux|les) (sont )?admissibles)/,
+    ],
+  ],
+  [
+    'NO',
+    [
+      /(canadian citizens|permanent residents only|must be eligible to work in canada)/,
+      /(citoyen(ne)?s canadien|residents? permanents? seulement|reservee? aux citoyen|autorisee? a travailler au canada)/,
+    ],
+  ],
+];
+
+export function extractInternationalEligibility(text: string): ScoredField & { allowed: CanadaTriState } {
+  const match = scoreFirstMatch(text, ELIGIBILITY_PATTERNS, ELIGIBILITY_LABEL, (a, b) => a === b);
+  if (!match) return { allowed: 'UNKNOWN', evidence: null, span: null, ...scoreSignals([]) };
+  const { value, ...rest } = match;
+  return { allowed: value, ...rest };
+}
+
+const FRENCH_TERMS: Record<string, string> = { automne: 'Fall', hiver: 'Winter', ete: 'Summer' };
+
 export function extractStartTerm(text: string): string | null {
   const m = text.match(/\b(Fall|Winter|Summer)\s+(20\d{2})\b/i);
-  if (!m) return null;
-  return `${m[1]} ${m[2]}`;
+  if (m) return `${m[1]} ${m[2]}`;
+  // Stored in English so the start-term filter works across languages.
+  const fr = foldText(text).match(/\b(automne|hiver|ete)\s+(20\d{2})\b/);
+  return fr ? `${FRENCH_TERMS[fr[1]]} ${fr[2]}` : null;
+}
+
+const FR_STOPWORDS = new Set(['le', 'la', 'les', 'des', 'du', 'et', 'est', 'pour', 'dans', 'une', 'avec', 'sur', 'aux', 'vous', 'nous', 'sont', 'par', 'qui']);
+const EN_STOPWORDS = new Set(['the', 'and', 'of', 'to', 'for', 'in', 'is', 'with', 'are', 'you', 'we', 'by', 'this', 'be', 'an', 'will', 'who']);
+const MIN_STOPWORD_HITS = 20;
+
+function languageFromTag(tag: string | undefined): CanadaLanguage | null {
+  const primary = (tag ?? '').trim().toLowerCase().split(/[-_]/)[0];
+  return (CANADA_LANGUAGES as readonly string[]).includes(primary) ? (primary as CanadaLanguage) : null;
+}
+
+// Body text wins over <html lang> when it clearly disagrees: CMS templates often
+// hard-code lang="en" on translated pages. Balanced bilingual text keeps the declared tag.
+export function detectPageLanguage(html: string, text: string): CanadaLanguage | null {
+  const declared = languageFromTag(cheerio.load(html)('html').attr('lang'));
+
+  let fr = 0;
+  let en = 0;
+  for (const word of text.toLowerCase().split(/[^\p{L}']+/u).slice(0, 3000)) {
+    if (FR_STOPWORDS.has(word)) fr += 1;
+    else if (EN_STOPWORDS.has(word)) en += 1;
+  }
+  if (fr + en < MIN_STOPWORD_HITS) return declared;
+
+  const frShare = fr / (fr + en);
+  if (frShare >= 0.65) return 'fr';
+  if (frShare <= 0.35) return 'en';
+  return declared;
 }
 
 export function extractApplicationUrl(html: string, baseUrl: string): string | null {
@@ -103,6 +212,220 @@ export function extractApplicationUrl(html: string, baseUrl: string): string | n
   return first ? first.abs : null;
 }
 
+export type StructuredSource = 'JSON_LD' | 'MICRODATA' | 'OPENGRAPH';
+
+export type StructuredPosting = {
+  source: StructuredSource;
+  schemaType: string | null;
+  title: string | null;
+  deadline: string | null;
+  organization: string | null;
+  city: string | null;
+  province: string | null;
+  salary: string | null;
+  url: string | null;
+  // The property each value was read from and its value as published, e.g.
+  // `validThrough: 2026-03-01T23:59:00-05:00`, quoted as evidence.
+  evidence: { deadline: string | null; salary: string | null };
+};
+
+const MAX_PROPERTY_QUOTE = 200;
+
+const POSTING_TYPES = ['JobPosting', 'EducationalOccupationalProgram'];
+
+const PROVINCE_BY_CODE: Record<string, string> = {
+  AB: 'Alberta',
+  BC: 'British Columbia',
+  MB: 'Manitoba',
+  NB: 'New Brunswick',
+  NL: 'Newfoundland and Labrador',
+  NS: 'Nova Scotia',
+  NT: 'Northwest Territories',
+  NU: 'Nunavut',
+  ON: 'Ontario',
+  PE: 'Prince Edward Island',
+  QC: 'Quebec',
+  SK: 'Saskatchewan',
+  YT: 'Yukon',
+};
+
+export function normalizeProvince(value: string | null | undefined) {
+  const v = (value ?? '').replace(/\s+/g, ' ').trim();
+  if (!v) return null;
+  const byCode = PROVINCE_BY_CODE[v.toUpperCase().replace(/\.$/, '')];
+  if (byCode) return byCode;
+  const plain = v.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+  const match = Object.values(PROVINCE_BY_CODE).find((name) => name.toLowerCase() === plain);
+  if (match) return match;
+  if (plain === 'colombie-britannique') return 'British Columbia';
+  return null;
+}
+
+function toIsoDate(value: string | null | undefined) {
+  const v = (value ?? '').trim();
+  if (!v) return null;
+  // Keep the calendar date as published; converting through UTC can shift it by a day.
+  const direct = v.match(/^(\d{4}-\d{2}-\d{2})/)?.[1];
+  if (direct) return direct;
+  const parsed = new Date(v);
+  if (!Number.isFinite(parsed.getTime())) return null;
+  return parsed.toISOString().slice(0, 10);
+}
+
+function asText(value: unknown): string | null {
+  if (typeof value === 'string') return value.replace(/\s+/g, ' ').trim() || null;
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value)) return asText(value[0]);
+  if (value && typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    return asText(obj.name ?? obj['@value'] ?? null);
+  }
+  return null;
+}
+
+function typesOf(node: Record<string, unknown>) {
+  const t = node['@type'];
+  const list = Array.isArray(t) ? t : [t];
+  return list.filter((v): v is string => typeof v === 'string').map((v) => v.replace(/^https?:\/\/schema\.org\//, ''));
+}
+
+function flattenJsonLd(value: unknown, out: Record<string, unknown>[] = []) {
+  if (Array.isArray(value)) {
+    for (const v of value) flattenJsonLd(v, out);
+  } else if (value && typeof value === 'object') {
+    const node = value as Record<string, unknown>;
+    out.push(node);
+    if (node['@graph']) flattenJsonLd(node['@graph'], out);
+  }
+  return out;
+}
+
+function formatSalary(value: unknown): string | null {
+  if (!value || typeof value !== 'object') return asText(value);
+  const obj = value as Record<string, unknown>;
+  const currency = asText(obj.currency);
+  const inner = obj.value && typeof obj.value === 'object' ? (obj.value as Record<string, unknown>) : obj;
+  const amount = asText(inner.value) ?? ([asText(inner.minValue), asText(inner.maxValue)].filter(Boolean).join('–') || null);
+  if (!amount) return null;
+  const unit = asText(inner.unitText);
+  return [amount, currency, unit ? `/${unit.toLowerCase()}` : null].filter(Boolean).join(' ');
+}
+
+function locationOf(value: unknown) {
+  const first = Array.isArray(value) ? value[0] : value;
+  if (!first || typeof first !== 'object') return { city: null, province: null };
+  const obj = first as Record<string, unknown>;
+  const address = (obj.address && typeof obj.address === 'object' ? obj.address : obj) as Record<string, unknown>;
+  return {
+    city: asText(address.addressLocality),
+    province: normalizeProvince(asText(address.addressRegion)),
+  };
+}
+
+// The first of `names` that has a value, and which one it was.
+function pickProperty(names: string[], read: (name: string) => unknown) {
+  for (const name of names) {
+    const value = read(name);
+    if (value !== null && value !== undefined) return { name, value };
+  }
+  return null;
+}
+
+function quoteProperty(picked: { name: string; value: unknown } | null) {
+  if (!picked) return null;
+  const raw = picked.value && typeof picked.value === 'object' ? JSON.stringify(picked.value) : asText(picked.value);
+  return raw ? `${picked.name}: ${raw}`.slice(0, MAX_PROPERTY_QUOTE) : null;
+}
+
+function fromJsonLd($: cheerio.CheerioAPI): StructuredPosting | null {
+  const nodes = $('script[type="application/ld+json"]')
+    .toArray()
+    .flatMap((el) => {
+      try {
+        return flattenJsonLd(JSON.parse($(el).text()));
+      } catch {
+        return [];
+      }
+    });
+
+  const node = nodes.find((n) => typesOf(n).some((t) => POSTING_TYPES.includes(t)));
+  if (!node) return null;
+
+  const schemaType = typesOf(node).find((t) => POSTING_TYPES.includes(t)) ?? null;
+  const location = locationOf(node.jobLocation ?? node.location);
+  const deadline = pickProperty(['validThrough', 'applicationDeadline'], (name) => node[name]);
+  const salary = pickProperty(['baseSalary', 'estimatedSalary'], (name) => node[name]);
+  return {
+    source: 'JSON_LD',
+    schemaType,
+    title: asText(node.title ?? node.name),
+    deadline: toIsoDate(asText(deadline?.value)),
+    organization: asText(node.hiringOrganization ?? node.provider),
+    city: location.city,
+    province: location.province,
+    salary: formatSalary(salary?.value),
+    url: asText(node.url),
+    evidence: { deadline: quoteProperty(deadline), salary: quoteProperty(salary) },
+  };
+}
+
+function fromMicrodata($: cheerio.CheerioAPI): StructuredPosting | null {
+  const scope = $('[itemscope][itemtype]')
+    .toArray()
+    .find((el) => POSTING_TYPES.some((t) => ($(el).attr('itemtype') ?? '').endsWith(`schema.org/${t}`)));
+  if (!scope) return null;
+
+  const $scope = $(scope);
+  const prop = (name: string) => {
+    const el = $scope.find(`[itemprop="${name}"]`).first();
+    if (el.length === 0) return null;
+    const nested = el.is('[itemscope]') ? el.find('[itemprop="name"]').first() : null;
+    const target = nested && nested.length > 0 ? nested : el;
+    return asText(target.attr('content') ?? target.attr('datetime') ?? target.text());
+  };
+
+  const schemaType = ($scope.attr('itemtype') ?? '').split('/').pop() ?? null;
+  const deadline = pickProperty(['validThrough', 'applicationDeadline'], prop);
+  const salary = pickProperty(['baseSalary'], prop);
+  return {
+    source: 'MICRODATA',
+    schemaType,
+    title: prop('title') ?? prop('name'),
+    deadline: toIsoDate(asText(deadline?.value)),
+    organization: prop('hiringOrganization') ?? prop('provider'),
+    city: prop('addressLocality'),
+    province: normalizeProvince(prop('addressRegion')),
+    salary: asText(salary?.value),
+    url: prop('url'),
+    evidence: { deadline: quoteProperty(deadline), salary: quoteProperty(salary) },
+  };
+}
+
+function fromOpenGraph($: cheerio.CheerioAPI): StructuredPosting | null {
+  const meta = (name: string) => asText($(`meta[property="${name}"]`).attr('content') ?? null);
+  const title = meta('og:title');
+  const organization = meta('og:site_name');
+  if (!title && !organization) return null;
+  return {
+    source: 'OPENGRAPH',
+    schemaType: meta('og:type'),
+    title,
+    deadline: null,
+    organization,
+    city: null,
+    province: null,
+    salary: null,
+    url: meta('og:url'),
+    evidence: { deadline: null, salary: null },
+  };
+}
+
+// JSON-LD first, then microdata; OpenGraph only when neither describes a posting.
+export function extractStructuredPosting(html: string): StructuredPosting | null {
+  const $ = cheerio.load(html);
+  return fromJsonLd($) ?? fromMicrodata($) ?? fromOpenGraph($);
+}
+
 export function buildOpportunityFromHtml(args: {
   programType: CanadaProgramType;
   canonicalUrl: string;
@@ -110,20 +433,69 @@ export function buildOpportunityFromHtml(args: {
   html: string;
   etag: string | null;
   lastModified: string | null;
+  // From classifyPage when the caller already ran it; scores the page-type signal.
+  pageKind?: CanadaPageKind | null;
 }) {
   const h1 = extractH1(args.html);
   const text = extractText(args.html);
   const core = `${h1 ?? ''}\n${text}`.trim();
   const contentHash = computeContentHash(core.slice(0, 20000));
 
-  const titleClean = (h1 ?? '').trim() || takeWords(text, 10) || 'Opportunity';
+  const structured = extractStructuredPosting(args.html);
+  const hasPostingData = structured !== null && structured.source !== 'OPENGRAPH';
+
+  const titleClean =
+    (hasPostingData ? structured?.title : null) ?? ((h1 ?? '').trim() || takeWords(text, 10) || 'Opportunity');
   const nutshell = takeWords(text, 15) || 'See source for details.';
 
-  const deadline = extractDeadline(text);
-  const funding = extractFunding(text);
-  const intl = extractInternationalEligibility(text);
+  const known = lookupInstitution(args.canonicalUrl);
+  const context: ConfidenceSignalInput[] = [{ signal: 'source_trust', value: known ? 'registry' : 'unknown' }];
+  if (args.pageKind) context.push({ signal: 'page_kind', value: args.pageKind });
+
+  // Structured values are checked against the page text. When the two agree the text
+  // match supplies the quote; otherwise the quote is the structured property itself,
+  // with no span in the text to point at.
+  const textDeadline = extractDeadline(text);
+  const deadlineFound: ReturnType<typeof extractDeadline> = structured?.deadline
+    ? {
+        date: structured.deadline,
+        kind: 'DATE',
+        ...(textDeadline.date === structured.deadline
+          ? { evidence: textDeadline.evidence, span: textDeadline.span }
+          : { evidence: structured.evidence.deadline, span: null }),
+        ...scoreSignals([
+          { signal: 'structured_data', value: true },
+          { signal: 'date_precision', value: 'EXACT' },
+          ...(textDeadline.date
+            ? [{ signal: 'structured_agreement' as const, value: textDeadline.date === structured.deadline ? 'agree' : 'disagree' }]
+            : []),
+        ]),
+      }
+    : textDeadline;
+  const textFunding = extractFunding(text);
+  const fundingFound: ReturnType<typeof extractFunding> = structured?.salary
+    ? {
+        type: 'FUNDED',
+        ...(textFunding.type === 'FUNDED'
+          ? { evidence: textFunding.evidence, span: textFunding.span }
+          : { evidence: structured.evidence.salary, span: null }),
+        ...scoreSignals([
+          { signal: 'structured_data', value: true },
+          ...(textFunding.type !== 'UNKNOWN'
+            ? [{ signal: 'structured_agreement' as const, value: textFunding.type === 'FUNDED' ? 'agree' : 'disagree' }]
+            : []),
+        ]),
+      }
+    : textFunding;
+  const intlFound = extractInternationalEligibility(text);
+
+  const excerpt = createExcerptBuilder(args.html);
+  const deadline = { ...withContext(deadlineFound, context), excerpt: excerpt(text, deadlineFound.span) };
+  const funding = { ...withContext(fundingFound, context), excerpt: excerpt(text, fundingFound.span) };
+  const intl = { ...withContext(intlFound, context), excerpt: excerpt(text, intlFound.span) };
   const startTerm = extractStartTerm(text);
   const appUrl = extractApplicationUrl(args.html, args.canonicalUrl);
+  const language = detectPageLanguage(args.html, text);
 
   return {
     contentHash,
@@ -134,8 +506,58 @@ export function buildOpportunityFromHtml(args: {
     intl,
     startTerm,
     appUrl,
-    institution: inferInstitutionFromUrl(args.canonicalUrl),
+    institution: known?.name ?? structured?.organization ?? inferInstitutionFromUrl(args.canonicalUrl),
+    city: structured?.city ?? known?.city ?? null,
+    province: structured?.province ?? known?.province ?? null,
+    language,
+    fingerprint: fingerprint(extractMainText(args.html)),
+    structured,
+    closed: closedNotice(text),
     pageLastModified: args.lastModified,
     etag: args.etag,
   };
 }
+
+export type BuiltOpportunity = ReturnType<typeof buildOpportunityFromHtml> & { fragmentId: string };
+
+// One opportunity per posting block on multi-position pages, else the page as a
+// whole (fragmentId ''). Page-wide context (institution, language, location) is
+// shared; title, deadline, funding, eligibility and apply link come from the block,
+// with funding and eligibility falling back to page-wide statements.
+export function buildOpportunitiesFromHtml(args: Parameters<typeof buildOpportunityFromHtml>[0]): BuiltOpportunity[] {
+  const page = buildOpportunityFromHtml(args);
+  const segments = segmentPostings(args.html);
+  if (segments.length === 0) return [{ ...page, fragmentId: '' }];
+
+  // Excerpt offsets are relative to the segment's text; locations to the whole page.
+  const excerpt = createExcerptBuilder(args.html);
+  const context: ConfidenceSignalInput[] = [
+    { signal: 'source_trust', value: lookupInstitution(args.canonicalUrl) ? 'registry' : 'unknown' },
+    { signal: 'page_kind', value: 'SEGMENT' },
+  ];
+  return segments.map((segment) => {
+    const body = segment.text.startsWith(segment.heading) ? segment.text.slice(segment.heading.length) : segment.text;
+    const deadline = extractDeadline(segment.text);
+    const funding = extractFunding(segment.text);
+    const intl = extractInternationalEligibility(segment.text);
+    const applyLink = extractApplicationUrl(segment.html, args.canonicalUrl);
+    return {
+      ...page,
+      fragmentId: segment.fragmentId,
+      contentHash: computeContentHash(segment.text.slice(0, 20000)),
+      fingerprint: fingerprint(segment.text),
+      titleClean: segment.heading,
+      nutshell: takeWords(body, 15) || page.nutshell,
+      deadline: { ...withContext(deadline, context), excerpt: excerpt(segment.text, deadline.span) },
+      funding:
+        funding.type === 'UNKNOWN'
+          ? page.funding
+          : { ...withContext(funding, context), excerpt: excerpt(segment.text, funding.span) },
+      intl: intl.allowed === 'UNKNOWN' ? page.intl : { ...withContext(intl, context), excerpt: excerpt(segment.text, intl.span) },
+      startTerm: extractStartTerm(segment.text) ?? page.startTerm,
+      appUrl: applyLink ?? `${args.canonicalUrl.split('#')[0]}#${segment.fragmentId}`,
+      structured: null,
+      closed: closedNotice(segment.text),
+    };
+  });
+}
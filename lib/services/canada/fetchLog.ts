@@ -0,0 +1,50 @@
+import type { CanadaProgramType } from '../../../src/lib/canada/constants';
+import { computeContentHash } from './content';
+import type { CanadaFetchLogInsert, CanadaSupabaseClient } from './db';
+import type { CanadaFetchAction, CanadaFetchResult } from './types';
+import { WriteBatcher } from './batch';
+
+// One canada_fetch_logs row per attempt, retried attempts first.
+export function buildFetchLogRows(args: {
+  action: CanadaFetchAction;
+  programType: CanadaProgramType | null;
+  sourceId: string | null;
+  canonicalUrl: string;
+  fetched: CanadaFetchResult;
+}): CanadaFetchLogInsert[] {
+  return [...args.fetched.priorAttempts, args.fetched].map((a) => ({
+    action: args.action,
+    status: a.status,
+    program_type: args.programType,
+    source_id: args.sourceId,
+    canonical_url: args.canonicalUrl,
+    fetched_url: a.fetchedUrl,
+    attempt: a.attempt,
+    http_status: a.httpStatus,
+    elapsed_ms: a.elapsedMs,
+    response_bytes: a.responseBytes,
+    etag: a.etag,
+    page_last_modified: a.lastModified,
+    content_hash: a.bodyText ? computeContentHash(a.bodyText.slice(0, 20000)) : null,
+    blocked_reason: a.blockedReason,
+    error_message: a.errorMessage,
+  }));
+}
+
+const FETCH_LOG_BATCH = { maxSize: 25, lingerMs: 200 };
+
+// Returns a writer for the rows of one fetch. Rows from concurrent fetches are inserted
+// together; each call resolves with the id of its final attempt, the one whose body was
+// used, or null when logging failed (logs never fail a crawl).
+export function createFetchLogWriter(supabase: CanadaSupabaseClient) {
+  const batcher = new WriteBatcher<CanadaFetchLogInsert[], string | null>(async (groups) => {
+    const { data, error } = await supabase.from('canada_fetch_logs').insert(groups.flat()).select('id');
+    if (error) return groups.map(() => null);
+    let end = 0;
+    return groups.map((rows) => {
+      end += rows.length;
+      return data?.[end - 1]?.id ?? null;
+    });
+  }, FETCH_LOG_BATCH);
+  return (rows: CanadaFetchLogInsert[]) => batcher.add(rows);
+}
@@ -0,0 +1,60 @@
+import crypto from 'crypto';
+import { foldText } from './content';
+
+// MinHash over word 3-shingles with LSH banding. Postings are short, so a sentence
+// edited on one mirror moves a SimHash by many bits; MinHash estimates shingle
+// Jaccard similarity directly and degrades gracefully.
+
+const SHINGLE_WORDS = 3;
+const MIN_SHINGLES = 8;
+const PERMUTATIONS = 32;
+const BANDS = 8;
+const ROWS_PER_BAND = PERMUTATIONS / BANDS;
+export const NEAR_DUPLICATE_MIN_SIMILARITY = 0.75;
+
+function shingles(text: string) {
+  const words = foldText(text)
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w.length > 1);
+  const out = new Set<string>();
+  for (let i = 0; i + SHINGLE_WORDS <= words.length; i += 1) {
+    out.add(words.slice(i, i + SHINGLE_WORDS).join(' '));
+  }
+  return out;
+}
+
+// 32 hex-encoded 32-bit minima (256 chars), or null for text too short to compare.
+export function fingerprint(text: string): string | null {
+  const grams = shingles(text);
+  if (grams.size < MIN_SHINGLES) return null;
+
+  const minima = new Array<number>(PERMUTATIONS).fill(0xffffffff);
+  for (const gram of grams) {
+    const digest = crypto.createHash('md5').update(gram).digest();
+    const h1 = digest.readUInt32BE(0);
+    const h2 = digest.readUInt32BE(4) | 1;
+    // Double hashing stands in for independent permutations.
+    for (let i = 0; i < PERMUTATIONS; i += 1) {
+      const h = (h1 + Math.imul(i, h2)) >>> 0;
+      if (h < minima[i]) minima[i] = h;
+    }
+  }
+  return minima.map((m) => m.toString(16).padStart(8, '0')).join('');
+}
+
+// Estimated Jaccard similarity of the two shingle sets.
+export function fingerprintSimilarity(a: string, b: string) {
+  let same = 0;
+  for (let i = 0; i < PERMUTATIONS; i += 1) {
+    if (a.slice(i * 8, i * 8 + 8) === b.slice(i * 8, i * 8 + 8)) same += 1;
+  }
+  return same / PERMUTATIONS;
+}
+
+// Rows agreeing on any whole band become candidates: at similarity 0.75 that is
+// ~95% likely, at 0.3 under 7%.
+export function fingerprintBands(value: string | null): string[] {
+  if (!value) return [];
+  const width = ROWS_PER_BAND * 8;
+  return Array.from({ length: BANDS }, (_, i) => `${i}:${value.slice(i * width, (i + 1) * width)}`);
+}
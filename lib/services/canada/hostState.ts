@@ -0,0 +1,168 @@
+import type { CanadaSupabaseClient } from './db';
+import type { RobotsPolicy } from './robots';
+
+export type HostBackoffState = {
+  backoffUntil: number;
+  consecutiveBlocks: number;
+};
+
+export type StoredRobots = {
+  policy: RobotsPolicy;
+  fetchedAt: number;
+};
+
+// Per-host politeness state. Persisted so that serverless invocations (and
+// concurrent ones) see the same spacing, backoff and robots rules.
+export type HostStateStore = {
+  // Reserves the next request slot for `host` and returns how long to wait for it.
+  reserveSlot(host: string, minDelayMs: number): Promise<number>;
+  getBackoff(host: string): Promise<HostBackoffState>;
+  setBackoff(host: string, state: HostBackoffState): Promise<void>;
+  getRobots(host: string): Promise<StoredRobots | null>;
+  setRobots(host: string, robots: StoredRobots): Promise<void>;
+};
+
+type MemoryHostState = {
+  lastRequestAt: number | null;
+  backoff: HostBackoffState;
+  robots: StoredRobots | null;
+};
+
+export class InMemoryHostStateStore implements HostStateStore {
+  private readonly hosts = new Map<string, MemoryHostState>();
+
+  private state(host: string) {
+    const existing = this.hosts.get(host);
+    if (existing) return existing;
+    const created: MemoryHostState = {
+      lastRequestAt: null,
+      backoff: { backoffUntil: 0, consecutiveBlocks: 0 },
+      robots: null,
+    };
+    this.hosts.set(host, created);
+    return created;
+  }
+
+  async reserveSlot(host: string, minDelayMs: number) {
+    const now = Date.now();
+    const state = this.state(host);
+    const start = state.lastRequestAt === null ? now : Math.max(now, state.lastRequestAt + minDelayMs);
+    state.lastRequestAt = start;
+    return start - now;
+  }
+
+  async getBackoff(host: string) {
+    return { ...this.state(host).backoff };
+  }
+
+  async setBackoff(host: string, backoff: HostBackoffState) {
+    this.state(host).backoff = { ...backoff };
+  }
+
+  async getRobots(host: string) {
+    return this.state(host).robots;
+  }
+
+  async setRobots(host: string, robots: StoredRobots) {
+    this.state(host).robots = robots;
+  }
+}
+
+function toMs(iso: string | null) {
+  if (!iso) return 0;
+  const t = Date.parse(iso);
+  return Number.isFinite(t) ? t : 0;
+}
+
+export class SupabaseHostStateStore implements HostStateStore {
+  constructor(private readonly supabase: CanadaSupabaseClient) {}
+
+  async reserveSlot(host: string, minDelayMs: number) {
+    const { data, error } = await this.supabase.rpc('canada_reserve_host_slot', {
+      p_host: host,
+      p_min_delay_ms: minDelayMs,
+    });
+    if (error) throw new Error(error.message);
+    return Math.max(0, Number(data ?? 0));
+  }
+
+  async getBackoff(host: string) {
+    const { data, error } = await this.supabase
+      .from('canada_host_state')
+      .select('backoff_until,consecutive_blocks')
+      .eq('host', host)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return {
+      backoffUntil: toMs(data?.backoff_until ?? null),
+      consecutiveBlocks: data?.consecutive_blocks ?? 0,
+    };
+  }
+
+  async setBackoff(host: string, state: HostBackoffState) {
+    const { error } = await this.supabase.from('canada_host_state').upsert(
+      {
+        host,
+        backoff_until: state.backoffUntil > 0 ? new Date(state.backoffUntil).toISOString() : null,
+        consecutive_blocks: state.consecutiveBlocks,
+      },
+      { onConflict: 'host' },
+    );
+    if (error) throw new Error(error.message);
+  }
+
+  async getRobots(host: string) {
+    const { data, error } = await this.supabase
+      .from('canada_host_state')
+      .select('robots_policy,robots_fetched_at')
+      .eq('host', host)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    if (!data?.robots_policy || !data.robots_fetched_at) return null;
+    return { policy: data.robots_policy as RobotsPolicy, fetchedAt: toMs(data.robots_fetched_at) };
+  }
+
+  async setRobots(host: string, robots: StoredRobots) {
+    const { error } = await this.supabase.from('canada_host_state').upsert(
+      {
+        host,
+        robots_policy: robots.policy,
+        robots_fetched_at: new Date(robots.fetchedAt).toISOString(),
+      },
+      { onConflict: 'host' },
+    );
+    if (error) throw new Error(error.message);
+  }
+}
+
+// Reads another store's backoff and robots, but keeps every write (slots included) in
+// memory: a dry run respects the penalties real runs have set without changing them.
+export class ReadOnlyHostStateStore implements HostStateStore {
+  private readonly local = new InMemoryHostStateStore();
+  private readonly backoffSet = new Set<string>();
+  private readonly robotsSet = new Set<string>();
+
+  constructor(private readonly base: HostStateStore) {}
+
+  async reserveSlot(host: string, minDelayMs: number) {
+    return this.local.reserveSlot(host, minDelayMs);
+  }
+
+  async getBackoff(host: string) {
+    return this.backoffSet.has(host) ? this.local.getBackoff(host) : this.base.getBackoff(host);
+  }
+
+  async setBackoff(host: string, state: HostBackoffState) {
+    this.backoffSet.add(host);
+    await this.local.setBackoff(host, state);
+  }
+
+  async getRobots(host: string) {
+    return this.robotsSet.has(host) ? this.local.getRobots(host) : this.base.getRobots(host);
+  }
+
+  async setRobots(host: string, robots: StoredRobots) {
+    this.robotsSet.add(host);
+    await this.local.setRobots(host, robots);
+  }
+}
@@ -1,12 +1,29 @@
 import { looksBlocked, looksLikeLoginWall } from './content';
 import type { CanadaFetchResult, CanadaFetchStatus } from './types';
-import { HostBackoff, HostRateLimiter } from './rateLimit';
-import { isBlacklistedHost } from './policy';
-import { isAllowedByRobots } from './robots';
+import { HostBackoff, HostRateLimiter, sleep } from './rateLimit';
+import { getHost, isBlacklistedHost } from './policy';
+import { checkRobots } from './robots';
+import { InMemoryHostStateStore, type HostStateStore } from './hostState';
+import { decodeBody, isHtmlContentType, mimeType, readBodyWithLimit, type ContentHandler } from './body';
+import { createArchiveFetch, httpArchiveFromEnv, type CanadaFetch, type HttpArchiveOptions } from './archive';
 
 const DEFAULT_UA =
   'StudyPortalBot/1.0 (+https://studyportal.local) Mozilla/5.0 (compatible; StudyPortalBot/1.0)';
 
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+const RETRYABLE_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+  'UND_ERR_SOCKET',
+]);
+
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 10_000;
+
 export type ConditionalHeaders = {
   etag: string | null;
   lastModified: string | null;
@@ -20,72 +37,181 @@ export type FetchPageArgs = {
   maxBytes: number;
   conditional: ConditionalHeaders;
   respectRobots: boolean;
+  maxAttempts?: number;
+  // Wall-clock budget for waiting on backoff and retries within this call.
+  retryBudgetMs?: number;
+};
+
+export type CanadaHttpClientOptions = {
+  userAgent?: string;
+  hostState?: HostStateStore;
+  // Converters for non-HTML responses, keyed by MIME type (e.g. `application/pdf`).
+  contentHandlers?: Record<string, ContentHandler>;
+  // Record to or replay from a local HTTP archive; defaults to CANADA_HTTP_ARCHIVE.
+  archive?: HttpArchiveOptions | null;
 };
 
+type AttemptOutcome = {
+  result: CanadaFetchResult;
+  retryable: boolean;
+  retryAfterMs: number | null;
+};
+
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+  const date = Date.parse(trimmed);
+  if (!Number.isFinite(date)) return null;
+  return Math.max(0, date - now);
+}
+
+function retryDelayMs(attempt: number) {
+  const ceiling = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (attempt - 1));
+  return Math.floor(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+function isRetryableError(e: unknown) {
+  if (!(e instanceof Error)) return false;
+  if (e.name === 'AbortError') return true;
+  const code = (e as Error & { cause?: { code?: unknown } }).cause?.code;
+  return typeof code === 'string' && RETRYABLE_ERROR_CODES.has(code);
+}
+
+function emptyResult(args: FetchPageArgs, attempt: number): CanadaFetchResult {
+  return {
+    status: 'ERROR',
+    fetchedUrl: args.url,
+    canonicalUrl: args.canonicalUrl,
+    httpStatus: null,
+    elapsedMs: 0,
+    responseBytes: null,
+    etag: null,
+    lastModified: null,
+    bodyText: null,
+    blockedReason: null,
+    errorMessage: null,
+    unreachable: false,
+    attempt,
+    priorAttempts: [],
+  };
+}
+
 export class CanadaHttpClient {
+  readonly userAgent: string;
+  readonly hostState: HostStateStore;
+  // Used for pages, robots.txt and sitemaps alike, so an archive sees all traffic.
+  readonly fetch: CanadaFetch;
+  // Replaying from an archive: no politeness or retry waits.
+  readonly offline: boolean;
   private readonly limiterByHost = new Map<string, HostRateLimiter>();
-  private readonly backoff = new HostBackoff(1500, 60_000);
+  private readonly backoff: HostBackoff;
+  private readonly contentHandlers = new Map<string, ContentHandler>();
+
+  constructor(options: CanadaHttpClientOptions = {}) {
+    const archive = options.archive === undefined ? httpArchiveFromEnv() : options.archive;
+    this.userAgent = options.userAgent ?? DEFAULT_UA;
+    this.fetch = archive ? createArchiveFetch(archive) : fetch;
+    this.offline = archive?.mode === 'replay';
+    // With an archive, robots.txt must really be fetched (so it is recorded) and a
+    // replay must not depend on backoff or policies stored by live runs.
+    this.hostState = archive ? new InMemoryHostStateStore() : (options.hostState ?? new InMemoryHostStateStore());
+    this.backoff = new HostBackoff(1500, 60_000, this.hostState);
+    for (const [type, handler] of Object.entries(options.contentHandlers ?? {})) {
+      this.registerContentHandler(type, handler);
+    }
+  }
+
+  registerContentHandler(type: string, handler: ContentHandler) {
+    this.contentHandlers.set(mimeType(type), handler);
+  }
 
-  constructor(private readonly userAgent: string = DEFAULT_UA) {}
+  // Time left on the host's backoff penalty; nothing to wait for when replaying.
+  async backoffRemainingMs(host: string) {
+    return this.offline ? 0 : this.backoff.remainingMs(host);
+  }
+
+  // A plain request (sitemaps) held to the same politeness as fetchPage: it waits out the
+  // host's backoff and min delay, honours Retry-After and a 403/429 penalizes the host.
+  // Null, with nothing sent, when the backoff is longer than maxWaitMs.
+  async fetchPolitely(url: string, init: RequestInit, args: { minDelayMs: number; maxWaitMs: number }) {
+    const host = getHost(url) ?? 'unknown';
+    if (!this.offline) {
+      if (!(await this.backoff.wait(host, args.maxWaitMs))) return null;
+      await this.getLimiter(host, args.minDelayMs).wait(host);
+    }
+
+    const res = await this.fetch(url, init);
+    const retryAfterMs = parseRetryAfter(res.headers.get('retry-after'));
+    if (retryAfterMs !== null) await this.backoff.deferUntil(host, Date.now() + retryAfterMs);
+    if (res.status === 403 || res.status === 429) await this.backoff.penalize(host, 2.0);
+    return res;
+  }
 
   private getLimiter(host: string, minDelayMs: number) {
     const existing = this.limiterByHost.get(host);
     if (existing) return existing;
-    const limiter = new HostRateLimiter(minDelayMs);
+    const limiter = new HostRateLimiter(minDelayMs, this.hostState);
     this.limiterByHost.set(host, limiter);
     return limiter;
   }
 
   async fetchPage(args: FetchPageArgs): Promise<CanadaFetchResult> {
-    const started = Date.now();
-
     if (isBlacklistedHost(args.url)) {
-      return {
-        status: 'BLOCKED',
-        fetchedUrl: args.url,
-        canonicalUrl: args.canonicalUrl,
-        httpStatus: null,
-        elapsedMs: 0,
-        responseBytes: null,
-        etag: null,
-        lastModified: null,
-        bodyText: null,
-        blockedReason: 'blacklisted_host',
-        errorMessage: null,
-      };
+      return { ...emptyResult(args, 1), status: 'BLOCKED', blockedReason: 'blacklisted_host' };
     }
 
+    let crawlDelayMs: number | null = null;
     if (args.respectRobots) {
-      const ok = await isAllowedByRobots({ url: args.url, userAgent: this.userAgent });
-      if (!ok) {
-        return {
-          status: 'BLOCKED',
-          fetchedUrl: args.url,
-          canonicalUrl: args.canonicalUrl,
-          httpStatus: 403,
-          elapsedMs: 0,
-          responseBytes: null,
-          etag: null,
-          lastModified: null,
-          bodyText: null,
-          blockedReason: 'robots_disallow',
-          errorMessage: null,
-        };
+      const robots = await checkRobots({ url: args.url, userAgent: this.userAgent, store: this.hostState, fetch: this.fetch });
+      crawlDelayMs = robots.crawlDelayMs;
+      if (!robots.allowed && robots.retryable) {
+        return { ...emptyResult(args, 1), status: 'ERROR', errorMessage: 'robots.txt unreachable' };
+      }
+      if (!robots.allowed) {
+        return { ...emptyResult(args, 1), status: 'BLOCKED', httpStatus: 403, blockedReason: 'robots_disallow' };
       }
     }
-    const host = (() => {
-      try {
-        return new URL(args.url).hostname;
-      } catch {
-        return 'unknown';
+    const host = getHost(args.url) ?? 'unknown';
+
+    const limiter = this.getLimiter(host, args.minDelayMs);
+    if (crawlDelayMs !== null) limiter.raiseMinDelay(crawlDelayMs);
+
+    const maxAttempts = Math.max(1, args.maxAttempts ?? 3);
+    const deadline = Date.now() + (args.retryBudgetMs ?? 30_000);
+    const priorAttempts: CanadaFetchResult[] = [];
+
+    for (let attempt = 1; ; attempt += 1) {
+      if (!this.offline) {
+        const waited = await this.backoff.wait(host, Math.max(0, deadline - Date.now()));
+        if (!waited) {
+          return { ...emptyResult(args, attempt), status: 'DEFERRED', errorMessage: 'Host is backing off', priorAttempts };
+        }
+        await limiter.wait(host);
       }
-    })();
 
-    await this.backoff.wait(host);
-    await this.getLimiter(host, args.minDelayMs).wait(host);
+      const outcome = await this.attemptFetch(args, host, attempt);
+      if (!outcome.retryable || attempt >= maxAttempts) {
+        return { ...outcome.result, priorAttempts };
+      }
+
+      const delay = retryDelayMs(attempt);
+      if (Date.now() + Math.max(delay, outcome.retryAfterMs ?? 0) > deadline) {
+        return { ...outcome.result, priorAttempts };
+      }
+
+      priorAttempts.push(outcome.result);
+      if (!this.offline) await sleep(delay);
+    }
+  }
+
+  private async attemptFetch(args: FetchPageArgs, host: string, attempt: number): Promise<AttemptOutcome> {
+    const started = Date.now();
+    const base = emptyResult(args, attempt);
 
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), args.timeoutMs);
+    let gotResponse = false;
 
     try {
       const headers: Record<string, string> = {
@@ -96,116 +222,128 @@ export class CanadaHttpClient {
       if (args.conditional.etag) headers['If-None-Match'] = args.conditional.etag;
       if (args.conditional.lastModified) headers['If-Modified-Since'] = args.conditional.lastModified;
 
-      const res = await fetch(args.url, { headers, redirect: 'follow', signal: controller.signal });
+      const res = await this.fetch(args.url, { headers, redirect: 'follow', signal: controller.signal });
+      gotResponse = true;
       const elapsedMs = Date.now() - started;
 
       const httpStatus = res.status;
       const etag = res.headers.get('etag');
       const lastModified = res.headers.get('last-modified');
+      const responded = { ...base, fetchedUrl: res.url || args.url, httpStatus, elapsedMs, etag, lastModified };
+
+      const retryAfterMs = parseRetryAfter(res.headers.get('retry-after'));
+      if (retryAfterMs !== null) {
+        await this.backoff.deferUntil(host, Date.now() + retryAfterMs);
+      }
 
       if (httpStatus === 304) {
         return {
-          status: 'NOT_MODIFIED',
-          fetchedUrl: res.url || args.url,
-          canonicalUrl: args.canonicalUrl,
-          httpStatus,
-          elapsedMs,
-          responseBytes: 0,
-          etag,
-          lastModified,
-          bodyText: null,
-          blockedReason: null,
-          errorMessage: null,
+          result: { ...responded, status: 'NOT_MODIFIED', responseBytes: 0 },
+          retryable: false,
+          retryAfterMs,
         };
       }
 
-      const bytes = await res.arrayBuffer();
-      const responseBytes = bytes.byteLength;
+      const contentType = res.headers.get('content-type');
+      const handler = isHtmlContentType(contentType) ? null : (this.contentHandlers.get(mimeType(contentType)) ?? null);
+
+      // Refuse non-HTML bodies before downloading them.
+      if (res.ok && !isHtmlContentType(contentType) && !handler) {
+        await res.body?.cancel().catch(() => undefined);
+        return {
+          result: { ...responded, status: 'ERROR', errorMessage: `Unsupported content type (${mimeType(contentType)})` },
+          retryable: false,
+          retryAfterMs,
+        };
+      }
+
+      const body = await readBodyWithLimit(res, args.maxBytes);
+      const responseBytes = body.byteLength;
 
       const status: CanadaFetchStatus = res.ok ? 'OK' : httpStatus === 403 || httpStatus === 429 ? 'BLOCKED' : 'ERROR';
 
       if (status === 'BLOCKED') {
-        this.backoff.penalize(host, 2.0);
+        await this.backoff.penalize(host, 2.0);
       }
 
-      if (responseBytes > args.maxBytes) {
+      if (body.exceeded) {
         return {
-          status: 'ERROR',
-          fetchedUrl: res.url || args.url,
-          canonicalUrl: args.canonicalUrl,
-          httpStatus,
-          elapsedMs,
-          responseBytes,
-          etag,
-          lastModified,
-          bodyText: null,
-          blockedReason: null,
-          errorMessage: `Response too large (${responseBytes} bytes)`,
+          result: {
+            ...responded,
+            status: 'ERROR',
+            responseBytes,
+            errorMessage: `Response too large (over ${args.maxBytes} bytes)`,
+          },
+          retryable: false,
+          retryAfterMs,
+        };
+      }
+
+      if (!res.ok && RETRYABLE_STATUSES.has(httpStatus)) {
+        return {
+          result: { ...responded, status: 'ERROR', responseBytes, errorMessage: `HTTP ${httpStatus}` },
+          retryable: true,
+          retryAfterMs,
         };
       }
 
-      const text = new TextDecoder('utf-8', { fatal: false }).decode(bytes);
+      const text =
+        res.ok && handler
+          ? await handler({ bytes: body.bytes, contentType: contentType ?? '', url: res.url || args.url })
+          : decodeBody(contentType, body.bytes);
 
       if (looksBlocked(text) || looksLikeLoginWall(text)) {
-        this.backoff.penalize(host, 2.0);
+        // A 403/429 was already penalized above; one penalty per response.
+        if (status !== 'BLOCKED') await this.backoff.penalize(host, 2.0);
         return {
-          status: 'BLOCKED',
-          fetchedUrl: res.url || args.url,
-          canonicalUrl: args.canonicalUrl,
-          httpStatus,
-          elapsedMs,
-          responseBytes,
-          etag,
-          lastModified,
-          bodyText: null,
-          blockedReason: looksBlocked(text) ? 'blocked_content' : 'login_wall',
-          errorMessage: null,
+          result: {
+            ...responded,
+            status: 'BLOCKED',
+            responseBytes,
+            blockedReason: looksBlocked(text) ? 'blocked_content' : 'login_wall',
+          },
+          retryable: false,
+          retryAfterMs,
         };
       }
 
       if (!res.ok) {
         return {
-          status,
-          fetchedUrl: res.url || args.url,
-          canonicalUrl: args.canonicalUrl,
-          httpStatus,
-          elapsedMs,
-          responseBytes,
-          etag,
-          lastModified,
-          bodyText: null,
-          blockedReason: status === 'BLOCKED' ? 'http_blocked' : null,
-          errorMessage: `HTTP ${httpStatus}`,
+          result: {
+            ...responded,
+            status,
+            responseBytes,
+            blockedReason: status === 'BLOCKED' ? 'http_blocked' : null,
+            errorMessage: `HTTP ${httpStatus}`,
+          },
+          retryable: false,
+          retryAfterMs,
         };
       }
 
+      await this.backoff.reset(host);
+
       return {
-        status: 'OK',
-        fetchedUrl: res.url || args.url,
-        canonicalUrl: args.canonicalUrl,
-        httpStatus,
-        elapsedMs,
-        responseBytes,
-        etag,
-        lastModified,
-        bodyText: text,
-        blockedReason: null,
-        errorMessage: null,
+        result: { ...responded, status: 'OK', responseBytes, bodyText: text },
+        retryable: false,
+        retryAfterMs,
       };
     } catch (e) {
       const elapsedMs = Date.now() - started;
+      const timedOut = e instanceof Error && e.name === 'AbortError';
       return {
-        status: 'ERROR',
-        fetchedUrl: args.url,
-        canonicalUrl: args.canonicalUrl,
-        httpStatus: null,
-        elapsedMs,
-        responseBytes: null,
-        etag: null,
-        lastModified: null,
-        bodyText: null,
-        blockedReason: null,
-        errorMessage: e instanceof Error ? e.message : 'Unknown error',
+        result: {
+          ...base,
+          elapsedMs,
+          unreachable: !gotResponse,
+          errorMessage: timedOut
+            ? `Timed out after ${args.timeoutMs}ms`
+            : e instanceof Error
+              ? e.message
+              : 'Unknown error',
+        },
+        retryable: isRetryableError(e),
+        retryAfterMs: null,
       };
     } finally {
       clearTimeout(timeout);
@@ -0,0 +1,191 @@
+// Local registry of Canadian post-secondary institutions, keyed by web domain.
+// Hosts match an entry when they equal the domain or sit below it; campus rules
+// refine the match by subdomain (e.g. `cfdlab.ok.ubc.ca` -> UBC Okanagan).
+
+type CampusRule = {
+  subdomain: string;
+  campus: string;
+  city: string;
+};
+
+type InstitutionEntry = {
+  domains: string[];
+  name: string;
+  province: string;
+  city: string;
+  campuses?: CampusRule[];
+};
+
+export type InstitutionMatch = {
+  name: string;
+  campus: string | null;
+  province: string;
+  city: string;
+  domain: string;
+};
+
+const INSTITUTIONS: InstitutionEntry[] = [
+  // British Columbia
+  {
+    domains: ['ubc.ca'],
+    name: 'University of British Columbia',
+    province: 'British Columbia',
+    city: 'Vancouver',
+    campuses: [{ subdomain: 'ok', campus: 'Okanagan', city: 'Kelowna' }],
+  },
+  { domains: ['sfu.ca'], name: 'Simon Fraser University', province: 'British Columbia', city: 'Burnaby' },
+  { domains: ['uvic.ca'], name: 'University of Victoria', province: 'British Columbia', city: 'Victoria' },
+  { domains: ['unbc.ca'], name: 'University of Northern British Columbia', province: 'British Columbia', city: 'Prince George' },
+  { domains: ['tru.ca'], name: 'Thompson Rivers University', province: 'British Columbia', city: 'Kamloops' },
+  { domains: ['royalroads.ca'], name: 'Royal Roads University', province: 'British Columbia', city: 'Victoria' },
+  { domains: ['ufv.ca'], name: 'University of the Fraser Valley', province: 'British Columbia', city: 'Abbotsford' },
+  { domains: ['bcit.ca'], name: 'British Columbia Institute of Technology', province: 'British Columbia', city: 'Burnaby' },
+  { domains: ['kpu.ca'], name: 'Kwantlen Polytechnic University', province: 'British Columbia', city: 'Surrey' },
+  { domains: ['viu.ca'], name: 'Vancouver Island University', province: 'British Columbia', city: 'Nanaimo' },
+  { domains: ['ecuad.ca'], name: 'Emily Carr University of Art + Design', province: 'British Columbia', city: 'Vancouver' },
+
+  // Alberta
+  { domains: ['ualberta.ca'], name: 'University of Alberta', province: 'Alberta', city: 'Edmonton' },
+  { domains: ['ucalgary.ca'], name: 'University of Calgary', province: 'Alberta', city: 'Calgary' },
+  { domains: ['uleth.ca'], name: 'University of Lethbridge', province: 'Alberta', city: 'Lethbridge' },
+  { domains: ['athabascau.ca'], name: 'Athabasca University', province: 'Alberta', city: 'Athabasca' },
+  { domains: ['macewan.ca'], name: 'MacEwan University', province: 'Alberta', city: 'Edmonton' },
+  { domains: ['mtroyal.ca'], name: 'Mount Royal University', province: 'Alberta', city: 'Calgary' },
+
+  // Saskatchewan and Manitoba
+  { domains: ['usask.ca'], name: 'University of Saskatchewan', province: 'Saskatchewan', city: 'Saskatoon' },
+  { domains: ['uregina.ca'], name: 'University of Regina', province: 'Saskatchewan', city: 'Regina' },
+  { domains: ['umanitoba.ca'], name: 'University of Manitoba', province: 'Manitoba', city: 'Winnipeg' },
+  { domains: ['uwinnipeg.ca'], name: 'University of Winnipeg', province: 'Manitoba', city: 'Winnipeg' },
+  { domains: ['brandonu.ca'], name: 'Brandon University', province: 'Manitoba', city: 'Brandon' },
+
+  // Ontario
+  {
+    domains: ['utoronto.ca'],
+    name: 'University of Toronto',
+    province: 'Ontario',
+    city: 'Toronto',
+    campuses: [
+      { subdomain: 'utm', campus: 'Mississauga', city: 'Mississauga' },
+      { subdomain: 'utsc', campus: 'Scarborough', city: 'Toronto' },
+    ],
+  },
+  { domains: ['yorku.ca'], name: 'York University', province: 'Ontario', city: 'Toronto' },
+  { domains: ['torontomu.ca', 'ryerson.ca'], name: 'Toronto Metropolitan University', province: 'Ontario', city: 'Toronto' },
+  { domains: ['mcmaster.ca'], name: 'McMaster University', province: 'Ontario', city: 'Hamilton' },
+  { domains: ['uwaterloo.ca'], name: 'University of Waterloo', province: 'Ontario', city: 'Waterloo' },
+  { domains: ['wlu.ca'], name: 'Wilfrid Laurier University', province: 'Ontario', city: 'Waterloo' },
+  { domains: ['uwo.ca'], name: 'Western University', province: 'Ontario', city: 'London' },
+  { domains: ['queensu.ca'], name: "Queen's University", province: 'Ontario', city: 'Kingston' },
+  { domains: ['uottawa.ca'], name: 'University of Ottawa', province: 'Ontario', city: 'Ottawa' },
+  { domains: ['carleton.ca'], name: 'Carleton University', province: 'Ontario', city: 'Ottawa' },
+  { domains: ['uoguelph.ca'], name: 'University of Guelph', province: 'Ontario', city: 'Guelph' },
+  { domains: ['uwindsor.ca'], name: 'University of Windsor', province: 'Ontario', city: 'Windsor' },
+  { domains: ['brocku.ca'], name: 'Brock University', province: 'Ontario', city: 'St. Catharines' },
+  { domains: ['trentu.ca'], name: 'Trent University', province: 'Ontario', city: 'Peterborough' },
+  { domains: ['lakeheadu.ca'], name: 'Lakehead University', province: 'Ontario', city: 'Thunder Bay' },
+  { domains: ['laurentian.ca'], name: 'Laurentian University', province: 'Ontario', city: 'Sudbury' },
+  { domains: ['nipissingu.ca'], name: 'Nipissing University', province: 'Ontario', city: 'North Bay' },
+  { domains: ['ontariotechu.ca'], name: 'Ontario Tech University', province: 'Ontario', city: 'Oshawa' },
+  { domains: ['ocadu.ca'], name: 'OCAD University', province: 'Ontario', city: 'Toronto' },
+  { domains: ['algomau.ca'], name: 'Algoma University', province: 'Ontario', city: 'Sault Ste. Marie' },
+  { domains: ['rmc-cmr.ca'], name: 'Royal Military College of Canada', province: 'Ontario', city: 'Kingston' },
+
+  // Quebec
+  { domains: ['mcgill.ca'], name: 'McGill University', province: 'Quebec', city: 'Montreal' },
+  { domains: ['concordia.ca'], name: 'Concordia University', province: 'Quebec', city: 'Montreal' },
+  { domains: ['umontreal.ca'], name: 'Université de Montréal', province: 'Quebec', city: 'Montreal' },
+  { domains: ['polymtl.ca'], name: 'Polytechnique Montréal', province: 'Quebec', city: 'Montreal' },
+  { domains: ['hec.ca'], name: 'HEC Montréal', province: 'Quebec', city: 'Montreal' },
+  { domains: ['ulaval.ca'], name: 'Université Laval', province: 'Quebec', city: 'Quebec City' },
+  { domains: ['usherbrooke.ca'], name: 'Université de Sherbrooke', province: 'Quebec', city: 'Sherbrooke' },
+  { domains: ['uqam.ca'], name: 'Université du Québec à Montréal', province: 'Quebec', city: 'Montreal' },
+  { domains: ['etsmtl.ca'], name: 'École de technologie supérieure', province: 'Quebec', city: 'Montreal' },
+  { domains: ['inrs.ca'], name: 'Institut national de la recherche scientifique', province: 'Quebec', city: 'Quebec City' },
+  { domains: ['uqtr.ca'], name: 'Université du Québec à Trois-Rivières', province: 'Quebec', city: 'Trois-Rivières' },
+  { domains: ['uqac.ca'], name: 'Université du Québec à Chicoutimi', province: 'Quebec', city: 'Saguenay' },
+  { domains: ['uqar.ca'], name: 'Université du Québec à Rimouski', province: 'Quebec', city: 'Rimouski' },
+  { domains: ['uqo.ca'], name: 'Université du Québec en Outaouais', province: 'Quebec', city: 'Gatineau' },
+  { domains: ['uqat.ca'], name: 'Université du Québec en Abitibi-Témiscamingue', province: 'Quebec', city: 'Rouyn-Noranda' },
+  { domains: ['ubishops.ca'], name: "Bishop's University", province: 'Quebec', city: 'Sherbrooke' },
+
+  // Atlantic provinces
+  { domains: ['dal.ca'], name: 'Dalhousie University', province: 'Nova Scotia', city: 'Halifax' },
+  { domains: ['smu.ca'], name: "Saint Mary's University", province: 'Nova Scotia', city: 'Halifax' },
+  { domains: ['acadiau.ca'], name: 'Acadia University', province: 'Nova Scotia', city: 'Wolfville' },
+  { domains: ['stfx.ca'], name: 'St. Francis Xavier University', province: 'Nova Scotia', city: 'Antigonish' },
+  { domains: ['msvu.ca'], name: 'Mount Saint Vincent University', province: 'Nova Scotia', city: 'Halifax' },
+  { domains: ['cbu.ca'], name: 'Cape Breton University', province: 'Nova Scotia', city: 'Sydney' },
+  { domains: ['unb.ca'], name: 'University of New Brunswick', province: 'New Brunswick', city: 'Fredericton' },
+  { domains: ['umoncton.ca'], name: 'Université de Moncton', province: 'New Brunswick', city: 'Moncton' },
+  { domains: ['mta.ca'], name: 'Mount Allison University', province: 'New Brunswick', city: 'Sackville' },
+  { domains: ['stu.ca'], name: 'St. Thomas University', province: 'New Brunswick', city: 'Fredericton' },
+  { domains: ['upei.ca'], name: 'University of Prince Edward Island', province: 'Prince Edward Island', city: 'Charlottetown' },
+  {
+    domains: ['mun.ca'],
+    name: 'Memorial University of Newfoundland',
+    province: 'Newfoundland and Labrador',
+    city: "St. John's",
+    campuses: [{ subdomain: 'grenfell', campus: 'Grenfell', city: 'Corner Brook' }],
+  },
+
+  // Territories
+  { domains: ['yukonu.ca'], name: 'Yukon University', province: 'Yukon', city: 'Whitehorse' },
+];
+
+function hostOf(url: string) {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '').replace(/\.$/, '');
+  } catch {
+    return null;
+  }
+}
+
+function isAtOrBelow(host: string, domain: string) {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+export function lookupInstitution(url: string): InstitutionMatch | null {
+  const host = hostOf(url);
+  if (!host) return null;
+
+  // Longest matching domain wins, so a registered subdomain beats its parent.
+  let best: { entry: InstitutionEntry; domain: string } | null = null;
+  for (const entry of INSTITUTIONS) {
+    for (const domain of entry.domains) {
+      if (isAtOrBelow(host, domain) && (!best || domain.length > best.domain.length)) {
+        best = { entry, domain };
+      }
+    }
+  }
+  if (!best) return null;
+
+  const { entry, domain } = best;
+  const campus = entry.campuses?.find((c) => isAtOrBelow(host, `${c.subdomain}.${domain}`)) ?? null;
+  return {
+    name: campus ? `${entry.name} (${campus.campus})` : entry.name,
+    campus: campus?.campus ?? null,
+    province: entry.province,
+    city: campus?.city ?? entry.city,
+    domain,
+  };
+}
+
+// Provincial second-level zones (e.g. `cegep.qc.ca`) register one label deeper.
+const PROVINCIAL_ZONES = new Set(['ab', 'bc', 'mb', 'nb', 'nl', 'ns', 'nt', 'nu', 'on', 'pe', 'qc', 'sk', 'yk']);
+
+export function registrableDomain(url: string) {
+  const host = hostOf(url);
+  if (!host) return null;
+  const labels = host.split('.');
+  if (labels.length <= 2) return host;
+  const depth = labels[labels.length - 1] === 'ca' && PROVINCIAL_ZONES.has(labels[labels.length - 2]) ? 3 : 2;
+  return labels.slice(-depth).join('.');
+}
+
+// A `.ca` host belonging to a registered institution: the scope for search seeds and
+// for sources proposed from outbound links.
+export function isCanadianAcademicUrl(url: string) {
+  const host = hostOf(url);
+  return host !== null && host.endsWith('.ca') && lookupInstitution(url) !== null;
+}
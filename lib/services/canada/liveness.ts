@@ -0,0 +1,116 @@
+import type { CanadaOpportunityRow } from './db';
+import type { ClosedNotice } from './content';
+import type { CanadaFetchResult } from './types';
+
+// When a posting is retired for good. A terminal signal must be seen on this many
+// consecutive checks before the row moves to REMOVED or FILLED, so one flaky response
+// or a stray sentence does not retire a live posting.
+
+export type TerminalSignal = 'http_404' | 'http_410' | ClosedNotice;
+
+export type LivenessThresholds = Record<TerminalSignal, number> & {
+  // Consecutive failed checks (errors and dead links) before the row leaves the public list.
+  hideAfterFailures: number;
+  // Consecutive failed checks before it is REMOVED as unreachable.
+  removeAfterFailures: number;
+};
+
+export type LivenessState = Pick<CanadaOpportunityRow, 'consecutive_failures' | 'terminal_signal' | 'terminal_signal_count'>;
+
+// What one check of the page found. `inconclusive` (we were blocked, or the fetch failed
+// for a reason that says nothing about the posting) changes nothing.
+export type LivenessCheck =
+  | { kind: 'healthy' }
+  | { kind: 'failed' }
+  | { kind: 'terminal'; signal: TerminalSignal }
+  | { kind: 'inconclusive' };
+
+const DEFAULT_THRESHOLDS: LivenessThresholds = {
+  http_404: 2,
+  // 410 Gone is the server saying so on purpose.
+  http_410: 1,
+  position_filled: 1,
+  no_longer_accepting: 2,
+  hideAfterFailures: 3,
+  removeAfterFailures: 8,
+};
+
+const THRESHOLD_ENV: Record<keyof LivenessThresholds, string> = {
+  http_404: 'CANADA_REMOVE_AFTER_404',
+  http_410: 'CANADA_REMOVE_AFTER_410',
+  position_filled: 'CANADA_FILLED_AFTER',
+  no_longer_accepting: 'CANADA_CLOSED_AFTER',
+  hideAfterFailures: 'CANADA_HIDE_AFTER_FAILURES',
+  removeAfterFailures: 'CANADA_REMOVE_AFTER_FAILURES',
+};
+
+const TERMINAL_STATUS: Record<TerminalSignal, 'REMOVED' | 'FILLED'> = {
+  http_404: 'REMOVED',
+  http_410: 'REMOVED',
+  position_filled: 'FILLED',
+  no_longer_accepting: 'FILLED',
+};
+
+// A dead link counts as a failed check; a closed notice is on a page that loads.
+const FAILED_SIGNALS = new Set<TerminalSignal>(['http_404', 'http_410']);
+
+export const NO_LIVENESS: LivenessState = { consecutive_failures: 0, terminal_signal: null, terminal_signal_count: 0 };
+
+// Each threshold can be overridden by a positive integer in its env variable
+// (CANADA_REMOVE_AFTER_404, CANADA_HIDE_AFTER_FAILURES, ...).
+export function livenessThresholdsFromEnv(): LivenessThresholds {
+  const thresholds = { ...DEFAULT_THRESHOLDS };
+  for (const key of Object.keys(THRESHOLD_ENV) as Array<keyof LivenessThresholds>) {
+    const n = Number(process.env[THRESHOLD_ENV[key]]);
+    if (Number.isInteger(n) && n > 0) thresholds[key] = n;
+  }
+  return thresholds;
+}
+
+export function terminalSignalForHttpStatus(httpStatus: number | null): TerminalSignal | null {
+  if (httpStatus === 404) return 'http_404';
+  if (httpStatus === 410) return 'http_410';
+  return null;
+}
+
+// A fetch that returned no page counts against the posting only when the page is gone
+// (404/410) or its host cannot be reached. Other failures, such as an unsupported
+// content type, an oversized body or a 5xx, say nothing about the posting itself.
+export function failedFetchCheck(fetched: Pick<CanadaFetchResult, 'httpStatus' | 'unreachable'>): LivenessCheck {
+  const signal = terminalSignalForHttpStatus(fetched.httpStatus);
+  if (signal) return { kind: 'terminal', signal };
+  return fetched.unreachable ? { kind: 'failed' } : { kind: 'inconclusive' };
+}
+
+// A 304 means the page reads as before, so a closed notice it carried is seen again.
+export function unchangedPageCheck(state: LivenessState): LivenessCheck {
+  const signal = state.terminal_signal;
+  return signal && !FAILED_SIGNALS.has(signal) ? { kind: 'terminal', signal } : { kind: 'healthy' };
+}
+
+// The row's liveness after a check, and the status it must move to when a rule fired.
+export function nextLiveness(
+  state: LivenessState | null,
+  check: LivenessCheck,
+  thresholds: LivenessThresholds,
+): LivenessState & { transition: { status: 'REMOVED' | 'FILLED'; reason: string } | null } {
+  const prev = state ?? NO_LIVENESS;
+  if (check.kind === 'inconclusive') return { ...prev, transition: null };
+  if (check.kind === 'healthy') return { ...NO_LIVENESS, transition: null };
+
+  const failed = check.kind === 'failed' || FAILED_SIGNALS.has(check.signal);
+  const next: LivenessState = {
+    consecutive_failures: failed ? prev.consecutive_failures + 1 : 0,
+    terminal_signal: check.kind === 'terminal' ? check.signal : null,
+    terminal_signal_count:
+      check.kind !== 'terminal' ? 0 : prev.terminal_signal === check.signal ? prev.terminal_signal_count + 1 : 1,
+  };
+
+  if (check.kind === 'terminal' && next.terminal_signal_count >= thresholds[check.signal]) {
+    return { ...next, transition: { status: TERMINAL_STATUS[check.signal], reason: check.signal } };
+  }
+  if (next.consecutive_failures >= thresholds.removeAfterFailures) {
+    return { ...next, transition: { status: 'REMOVED', reason: 'unreachable' } };
+  }
+  return { ...next, transition: null };
+}
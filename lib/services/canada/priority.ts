@@ -0,0 +1,128 @@
+import type { CanadaProgramType } from '../../../src/lib/canada/constants';
+import type { CanadaOpportunityRow, CanadaSupabaseClient } from './db';
+
+// Orders rows for verification by how overdue they are, where urgent rows fall due
+// sooner: a posting closing soon, one whose page keeps changing or one many students
+// bookmarked is re-checked more often than one nobody watches.
+
+// A row with nothing urgent about it is due this long after its last check.
+const BASE_INTERVAL_HOURS = 24 * 7;
+// How much each urgency factor (0..1) shortens that interval.
+const DEADLINE_WEIGHT = 3;
+const CHANGE_WEIGHT = 1;
+const INTEREST_WEIGHT = 2;
+// Deadlines further out add no urgency.
+const DEADLINE_HORIZON_DAYS = 30;
+const CHANGE_WINDOW_DAYS = 90;
+// Revisions within the window at which a row counts as changing often.
+const FREQUENT_CHANGES = 3;
+const POPULAR_BOOKMARKS = 25;
+// A BLOCKED row is retried only this long after it was blocked, and then ranks lower:
+// it is likely to be blocked again.
+const BLOCKED_RETRY_HOURS = 48;
+const BLOCKED_FACTOR = 0.5;
+// Candidates drawn from each pool per row to verify.
+const POOL_FACTOR = 4;
+const MAX_POOL = 400;
+
+export const VERIFIED_STATUSES = ['ACTIVE', 'NEEDS_REVIEW', 'BLOCKED'] as const;
+
+const CANDIDATE_COLUMNS = 'id,status,last_verified_at,deadline_date,bookmark_count';
+
+export type VerifyCandidate = Pick<
+  CanadaOpportunityRow,
+  'id' | 'status' | 'last_verified_at' | 'deadline_date' | 'bookmark_count'
+>;
+
+export type VerifyPriority = {
+  id: string;
+  score: number;
+  factors: { overdue: number; deadline: number; changes: number; interest: number };
+};
+
+// CANADA_BLOCKED_RETRY_HOURS overrides the default.
+export function blockedRetryHoursFromEnv() {
+  const n = Number(process.env.CANADA_BLOCKED_RETRY_HOURS);
+  return Number.isFinite(n) && n > 0 ? n : BLOCKED_RETRY_HOURS;
+}
+
+// Null while a BLOCKED row is still waiting out its retry delay.
+export function verifyPriority(
+  row: VerifyCandidate,
+  recentRevisions: number,
+  now = new Date(),
+  blockedRetryHours = BLOCKED_RETRY_HOURS,
+): VerifyPriority | null {
+  const hours = Math.max(0, (now.getTime() - Date.parse(row.last_verified_at)) / 36e5);
+  if (row.status === 'BLOCKED' && hours < blockedRetryHours) return null;
+
+  // A passed deadline adds nothing: the reaper expires the row.
+  const days = row.deadline_date ? (Date.parse(row.deadline_date) - now.getTime()) / 864e5 : Infinity;
+  const deadline = days >= 0 ? Math.max(0, 1 - days / DEADLINE_HORIZON_DAYS) : 0;
+  const changes = Math.min(1, recentRevisions / FREQUENT_CHANGES);
+  const interest = Math.min(1, Math.log1p(row.bookmark_count) / Math.log1p(POPULAR_BOOKMARKS));
+
+  const overdue = hours / BASE_INTERVAL_HOURS;
+  const urgency = 1 + DEADLINE_WEIGHT * deadline + CHANGE_WEIGHT * changes + INTEREST_WEIGHT * interest;
+  const score = overdue * urgency * (row.status === 'BLOCKED' ? BLOCKED_FACTOR : 1);
+  return { id: row.id, score, factors: { overdue, deadline, changes, interest } };
+}
+
+// Revisions per row over the change window.
+async function countRecentRevisions(supabase: CanadaSupabaseClient, ids: string[], now: Date) {
+  const since = new Date(now.getTime() - CHANGE_WINDOW_DAYS * 864e5).toISOString();
+  const counts = new Map<string, number>();
+  for (let i = 0; i < ids.length; i += 100) {
+    const { data, error } = await supabase
+      .from('canada_opportunity_revisions')
+      .select('opportunity_id')
+      .in('opportunity_id', ids.slice(i, i + 100))
+      .gte('created_at', since)
+      .returns<Array<{ opportunity_id: string }>>();
+    if (error) throw new Error(error.message);
+    for (const r of data ?? []) counts.set(r.opportunity_id, (counts.get(r.opportunity_id) ?? 0) + 1);
+  }
+  return counts;
+}
+
+// The ids of the `limit` rows most worth verifying now, best first. Candidates come
+// from three pools (least recently verified, closing soonest, most bookmarked) so an
+// urgent row is considered even when it was checked recently.
+export async function loadVerifyQueue(
+  supabase: CanadaSupabaseClient,
+  args: { programType?: CanadaProgramType; limit: number; now?: Date },
+): Promise<VerifyPriority[]> {
+  const now = args.now ?? new Date();
+  const poolSize = Math.min(args.limit * POOL_FACTOR, MAX_POOL);
+  const today = now.toISOString().slice(0, 10);
+  const horizon = new Date(now.getTime() + DEADLINE_HORIZON_DAYS * 864e5).toISOString().slice(0, 10);
+
+  const candidates = () => {
+    const query = supabase.from('canada_opportunity').select(CANDIDATE_COLUMNS).in('status', VERIFIED_STATUSES);
+    return args.programType ? query.eq('program_type', args.programType) : query;
+  };
+  const pools = await Promise.all([
+    candidates().order('last_verified_at', { ascending: true }).limit(poolSize).returns<VerifyCandidate[]>(),
+    candidates()
+      .gte('deadline_date', today)
+      .lte('deadline_date', horizon)
+      .order('deadline_date', { ascending: true })
+      .limit(poolSize)
+      .returns<VerifyCandidate[]>(),
+    candidates().gt('bookmark_count', 0).order('bookmark_count', { ascending: false }).limit(poolSize).returns<VerifyCandidate[]>(),
+  ]);
+
+  const byId = new Map<string, VerifyCandidate>();
+  for (const { data, error } of pools) {
+    if (error) throw new Error(error.message);
+    for (const row of data ?? []) byId.set(row.id, row);
+  }
+
+  const revisions = await countRecentRevisions(supabase, Array.from(byId.keys()), now);
+  const retryHours = blockedRetryHoursFromEnv();
+  return Array.from(byId.values())
+    .map((row) => verifyPriority(row, revisions.get(row.id) ?? 0, now, retryHours))
+    .filter((p): p is VerifyPriority => p !== null)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, args.limit);
+}
@@ -1,38 +1,73 @@
+import { InMemoryHostStateStore, type HostStateStore } from './hostState';
+
+export function sleep(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
+
 export class HostRateLimiter {
-  private nextAllowedAt = new Map<string, number>();
+  constructor(
+    private minDelayMs: number,
+    private readonly store: HostStateStore = new InMemoryHostStateStore(),
+  ) {}
 
-  constructor(private readonly minDelayMs: number) {}
+  raiseMinDelay(ms: number) {
+    this.minDelayMs = Math.max(this.minDelayMs, ms);
+  }
 
   async wait(host: string) {
-    const now = Date.now();
-    const next = this.nextAllowedAt.get(host) ?? 0;
-    const delay = Math.max(0, next - now);
+    const delay = await this.store.reserveSlot(host, this.minDelayMs);
     if (delay > 0) {
-      await new Promise<void>((resolve) => setTimeout(resolve, delay));
+      await sleep(delay);
     }
-    this.nextAllowedAt.set(host, Date.now() + this.minDelayMs);
   }
 }
 
 export class HostBackoff {
-  private penaltyUntil = new Map<string, number>();
+  constructor(
+    private readonly baseMs: number,
+    private readonly maxMs: number,
+    private readonly store: HostStateStore = new InMemoryHostStateStore(),
+  ) {}
 
-  constructor(private readonly baseMs: number, private readonly maxMs: number) {}
+  async remainingMs(host: string) {
+    const { backoffUntil } = await this.store.getBackoff(host);
+    return Math.max(0, backoffUntil - Date.now());
+  }
 
-  async wait(host: string) {
-    const now = Date.now();
-    const until = this.penaltyUntil.get(host) ?? 0;
-    const delay = Math.max(0, until - now);
+  // Waits out the host's penalty window. Returns false without waiting when the
+  // window is longer than the caller is prepared to wait.
+  async wait(host: string, maxWaitMs = Number.POSITIVE_INFINITY) {
+    const delay = await this.remainingMs(host);
+    if (delay > maxWaitMs) return false;
     if (delay > 0) {
-      await new Promise<void>((resolve) => setTimeout(resolve, delay));
+      await sleep(delay);
     }
+    return true;
+  }
+
+  // Honours a server-provided Retry-After, capped like any penalty, without shortening
+  // an existing one.
+  async deferUntil(host: string, untilMs: number) {
+    const capped = Math.min(untilMs, Date.now() + this.maxMs);
+    const existing = await this.store.getBackoff(host);
+    if (existing.backoffUntil >= capped) return;
+    await this.store.setBackoff(host, { ...existing, backoffUntil: capped });
   }
 
-  penalize(host: string, factor: number) {
+  async penalize(host: string, factor: number) {
     const now = Date.now();
-    const existingUntil = this.penaltyUntil.get(host) ?? 0;
-    const existingRemaining = Math.max(0, existingUntil - now);
+    const existing = await this.store.getBackoff(host);
+    const existingRemaining = Math.max(0, existing.backoffUntil - now);
     const next = Math.min(this.maxMs, Math.max(this.baseMs, Math.floor(existingRemaining * factor + this.baseMs)));
-    this.penaltyUntil.set(host, now + next);
+    await this.store.setBackoff(host, {
+      backoffUntil: Math.max(existing.backoffUntil, now + next),
+      consecutiveBlocks: existing.consecutiveBlocks + 1,
+    });
+  }
+
+  async reset(host: string) {
+    const existing = await this.store.getBackoff(host);
+    if (existing.consecutiveBlocks === 0) return;
+    await this.store.setBackoff(host, { backoffUntil: existing.backoffUntil, consecutiveBlocks: 0 });
   }
 }
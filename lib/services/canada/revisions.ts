@@ -0,0 +1,58 @@
+import type { CanadaOpportunityRow, CanadaRevisionInsert, CanadaSupabaseClient } from './db';
+
+// Fields a student acts on. Evidence, hashes and freshness churn on every fetch and
+// are not worth a history entry.
+export const REVISION_FIELDS = [
+  'title_clean',
+  'institution_name',
+  'deadline_date',
+  'funding_type',
+  'international_allowed',
+  'start_term',
+  'application_url',
+] as const;
+
+export type RevisionField = (typeof REVISION_FIELDS)[number];
+export type RevisionSnapshot = Pick<CanadaOpportunityRow, RevisionField>;
+export type RevisionDiff = Partial<Record<RevisionField, { from: unknown; to: unknown }>>;
+
+export const REVISION_COLUMNS = REVISION_FIELDS.join(',');
+
+export function diffOpportunity(before: RevisionSnapshot, after: RevisionSnapshot): RevisionDiff {
+  const diff: RevisionDiff = {};
+  for (const field of REVISION_FIELDS) {
+    const from = before[field] ?? null;
+    const to = after[field] ?? null;
+    if (from !== to) diff[field] = { from, to };
+  }
+  return diff;
+}
+
+type RevisionArgs = {
+  opportunityId: string;
+  before: RevisionSnapshot;
+  after: RevisionSnapshot;
+  fetchLogId: string | null;
+  contentHash: string | null;
+};
+
+// The revision row for a change, or null when no tracked field changed.
+export function buildRevision(args: RevisionArgs): CanadaRevisionInsert | null {
+  const diff = diffOpportunity(args.before, args.after);
+  if (Object.keys(diff).length === 0) return null;
+
+  const snapshot = Object.fromEntries(REVISION_FIELDS.map((f) => [f, args.after[f] ?? null]));
+  return {
+    opportunity_id: args.opportunityId,
+    fetch_log_id: args.fetchLogId,
+    content_hash: args.contentHash,
+    snapshot,
+    diff,
+  };
+}
+
+export async function insertRevisions(supabase: CanadaSupabaseClient, rows: CanadaRevisionInsert[]) {
+  if (rows.length === 0) return;
+  const { error } = await supabase.from('canada_opportunity_revisions').insert(rows);
+  if (error) throw new Error(error.message);
+}
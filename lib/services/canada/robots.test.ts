@@ -0,0 +1,114 @@
+import fs from 'fs';
+import path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { checkRobots, evaluateRobots, parseRobots } from './robots';
+import { InMemoryHostStateStore } from './hostState';
+import type { CanadaFetch } from './archive';
+
+const UA = 'StudyPortalBot/1.0 (+https://studyportal.local) Mozilla/5.0 (compatible; StudyPortalBot/1.0)';
+const OTHER_UA = 'SomeOtherBot/2.0';
+
+function fixture(name: string) {
+  return parseRobots(fs.readFileSync(path.join(__dirname, 'fixtures', 'robots', name), 'utf8'));
+}
+
+// [fixture, user agent, path, allowed, crawl delay ms]
+const CASES: Array<[string, string, string, boolean, number | null]> = [
+  ['drupal.txt', UA, '/', true, null],
+  ['drupal.txt', UA, '/graduate/funding/phd-scholarships', true, null],
+  ['drupal.txt', UA, '/admin/config', false, null],
+  ['drupal.txt', UA, '/search/node?keys=phd', false, null],
+  ['drupal.txt', UA, '/user/login?destination=/node/1', false, null],
+  ['drupal.txt', UA, '/core/themes/olivero/css/base.css', true, null],
+  ['drupal.txt', UA, '/core/themes/olivero/css/base.css?v=10', true, null],
+  ['drupal.txt', UA, '/core/install.php', false, null],
+  ['drupal.txt', UA, '/fr/media/oembed', false, null],
+  ['drupal.txt', UA, '/index.php/admin/', false, null],
+  ['wordpress.txt', UA, '/wp-admin/options.php', false, null],
+  ['wordpress.txt', UA, '/wp-admin/admin-ajax.php', true, null],
+  ['wordpress.txt', UA, '/research/visiting-students/', true, null],
+  // Our own group replaces the `*` one.
+  ['job-board.txt', UA, '/careers/postdoc-123', true, 5000],
+  ['job-board.txt', UA, '/careers/internal/hr', false, 5000],
+  ['job-board.txt', UA, '/listing?page=2&sort=date', true, 5000],
+  ['job-board.txt', OTHER_UA, '/careers/postdoc-123', false, 10000],
+  ['job-board.txt', OTHER_UA, '/listing?page=2&sort=date', false, 10000],
+  ['job-board.txt', OTHER_UA, '/files/posting.pdf', false, 10000],
+  ['job-board.txt', OTHER_UA, '/files/posting.pdf?download=1', true, 10000],
+  ['job-board.txt', 'GPTBot/1.1', '/', false, null],
+  ['job-board.txt', 'CCBot/2.0', '/about', false, null],
+  ['disallow-all.txt', UA, '/', false, null],
+  ['disallow-all.txt', UA, '/robots.txt', true, null],
+];
+
+describe('evaluateRobots over real-world robots files', () => {
+  it.each(CASES)('%s: %s %s', (name, userAgent, pathWithQuery, allowed, crawlDelayMs) => {
+    expect(evaluateRobots(fixture(name), userAgent, pathWithQuery)).toEqual({ allowed, crawlDelayMs, retryable: false });
+  });
+
+  it('collects sitemaps whatever their case or position', () => {
+    expect(fixture('drupal.txt').sitemaps).toEqual(['https://www.example.ca/sitemap.xml']);
+    expect(fixture('wordpress.txt').sitemaps).toEqual(['https://example.ca/sitemap_index.xml']);
+    expect(fixture('job-board.txt').sitemaps).toEqual(['https://careers.example.ca/sitemap.xml']);
+  });
+});
+
+function robotsResponse(status: number, body = '') {
+  return new Response(body, { status, headers: { 'content-type': 'text/plain' } });
+}
+
+describe('checkRobots', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('shares one cache entry between a host and its www. form', async () => {
+    const fetcher = vi.fn<CanadaFetch>(async () => robotsResponse(200, 'User-agent: *\nDisallow: /private/'));
+    const store = new InMemoryHostStateStore();
+
+    await checkRobots({ url: 'https://www.shared.example.ca/a', userAgent: UA, store, fetch: fetcher });
+    const decision = await checkRobots({ url: 'https://shared.example.ca/private/b', userAgent: UA, store, fetch: fetcher });
+
+    expect(decision.allowed).toBe(false);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(await store.getRobots('shared.example.ca')).not.toBeNull();
+  });
+
+  it('allows everything when robots.txt is missing', async () => {
+    const fetcher = vi.fn<CanadaFetch>(async () => robotsResponse(404));
+    const decision = await checkRobots({ url: 'https://missing.example.ca/', userAgent: UA, fetch: fetcher });
+    expect(decision).toEqual({ allowed: true, crawlDelayMs: null, retryable: false });
+  });
+
+  it('disallows the host and persists it on a 5xx', async () => {
+    const store = new InMemoryHostStateStore();
+    const fetcher = vi.fn<CanadaFetch>(async () => robotsResponse(503));
+    const decision = await checkRobots({ url: 'https://down.example.ca/', userAgent: UA, store, fetch: fetcher });
+    expect(decision).toEqual({ allowed: false, crawlDelayMs: null, retryable: false });
+    expect((await store.getRobots('down.example.ca'))?.policy.unreachable).toBe(true);
+  });
+
+  it('retries a network error and does not persist it', async () => {
+    const store = new InMemoryHostStateStore();
+    const fetcher = vi.fn<CanadaFetch>(async () => {
+      throw new TypeError('fetch failed');
+    });
+    const decision = await checkRobots({ url: 'https://flaky.example.ca/', userAgent: UA, store, fetch: fetcher });
+    expect(decision).toEqual({ allowed: false, crawlDelayMs: null, retryable: true });
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    expect(await store.getRobots('flaky.example.ca')).toBeNull();
+  });
+
+  it('gives up on a host that never answers', async () => {
+    vi.useFakeTimers();
+    const fetcher = vi.fn<CanadaFetch>(
+      (_url, init) =>
+        new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+        }),
+    );
+    const pending = checkRobots({ url: 'https://hang.example.ca/', userAgent: UA, fetch: fetcher });
+    await vi.advanceTimersByTimeAsync(20_000);
+    expect(await pending).toEqual({ allowed: false, crawlDelayMs: null, retryable: true });
+  });
+});
@@ -1,88 +1,279 @@
-type RobotsRule = { disallow: string };
+// RFC 9309 robots.txt handling: UA groups, Allow/Disallow with `*` and `$`,
+// longest-match precedence and the non-standard but common Crawl-delay.
+
+import type { HostStateStore } from './hostState';
+import type { CanadaFetch } from './archive';
+import { getHost } from './policy';
+
+type RobotsRule = { allow: boolean; pattern: string };
+
+type RobotsGroup = {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelaySec: number | null;
+};
+
+export type RobotsPolicy = {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+  // 5xx: RFC 9309 §2.3.1.4 says treat the site as fully disallowed.
+  unreachable: boolean;
+  // A network error or timeout: nothing is known about the rules yet, so the fetch is
+  // refused for now, retried soon, and never persisted.
+  transient?: boolean;
+};
+
+export type RobotsDecision = {
+  allowed: boolean;
+  crawlDelayMs: number | null;
+  // Refused only because robots.txt could not be fetched; worth retrying.
+  retryable: boolean;
+};
 
 type RobotsCacheEntry = {
   fetchedAt: number;
-  rules: RobotsRule[];
+  policy: RobotsPolicy;
 };
 
 const cache = new Map<string, RobotsCacheEntry>();
 const TTL_MS = 6 * 60 * 60 * 1000;
+const UNREACHABLE_TTL_MS = 30 * 60 * 1000;
+const TRANSIENT_TTL_MS = 60 * 1000;
+const ROBOTS_TIMEOUT_MS = 10_000;
+const ROBOTS_ATTEMPTS = 2;
+const MAX_ROBOTS_BYTES = 500 * 1024;
+const MAX_CRAWL_DELAY_MS = 60_000;
+
+export function userAgentToken(userAgent: string) {
+  return (userAgent.split(/[/\s]/)[0] ?? '').trim().toLowerCase();
+}
+
+export function parseRobots(text: string): RobotsPolicy {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
 
-function parseRobots(text: string) {
-  const lines = text
-    .split(/\r?\n/)
-    .map((l) => l.trim())
-    .filter(Boolean);
+  for (const rawLine of text.slice(0, MAX_ROBOTS_BYTES).split(/\r\n|\r|\n/)) {
+    const line = rawLine.split('#')[0].trim();
+    if (!line) continue;
 
-  let inGlobal = false;
-  const disallow: string[] = [];
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
 
-  for (const line of lines) {
-    const cleaned = line.split('#')[0].trim();
-    if (!cleaned) continue;
+    const key = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
 
-    const lower = cleaned.toLowerCase();
-    if (lower.startsWith('user-agent:')) {
-      const ua = cleaned.split(':')[1]?.trim() ?? '';
-      inGlobal = ua === '*';
+    // Sitemap lines are not tied to any user-agent group.
+    if (key === 'sitemap') {
+      if (value) sitemaps.push(value);
       continue;
     }
 
-    if (!inGlobal) continue;
+    if (key === 'user-agent') {
+      // Consecutive user-agent lines share one group.
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [], crawlDelaySec: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if (key === 'allow' || key === 'disallow') {
+      // An empty Disallow means "allow everything" and contributes no rule.
+      if (!value) continue;
+      current.rules.push({ allow: key === 'allow', pattern: normalizePath(value) });
+      continue;
+    }
 
-    if (lower.startsWith('disallow:')) {
-      const path = cleaned.split(':')[1]?.trim() ?? '';
-      if (path) disallow.push(path);
+    if (key === 'crawl-delay') {
+      const seconds = Number(value);
+      if (Number.isFinite(seconds) && seconds >= 0) current.crawlDelaySec = seconds;
     }
   }
 
-  return disallow.map((p) => ({ disallow: p }));
+  return { groups, sitemaps, unreachable: false };
 }
 
-export async function isAllowedByRobots(args: {
-  url: string;
-  userAgent: string;
-}): Promise<boolean> {
-  let host: string;
-  let path: string;
-  let origin: string;
+function normalizePath(path: string) {
+  // Compare percent-encoded forms so `/caf%C3%A9` and `/café` match each other.
+  return path.replace(/%[0-9a-f]{2}/gi, (m) => m.toUpperCase()).replace(/[^\x21-\x7e]/g, (c) => encodeURIComponent(c));
+}
 
-  try {
-    const u = new URL(args.url);
-    host = u.hostname.replace(/^www\./, '').toLowerCase();
-    path = u.pathname || '/';
-    origin = u.origin;
-  } catch {
-    return true;
+function patternToRegExp(pattern: string) {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const escaped = body
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${escaped}${anchored ? '$' : ''}`);
+}
+
+function selectGroups(policy: RobotsPolicy, token: string) {
+  const specific = policy.groups.filter((g) => g.agents.some((a) => a !== '*' && token === a));
+  if (specific.length > 0) return specific;
+  return policy.groups.filter((g) => g.agents.includes('*'));
+}
+
+export function evaluateRobots(policy: RobotsPolicy, userAgent: string, pathWithQuery: string): RobotsDecision {
+  if (policy.unreachable) return { allowed: false, crawlDelayMs: null, retryable: policy.transient === true };
+
+  const groups = selectGroups(policy, userAgentToken(userAgent));
+  const delays = groups.map((g) => g.crawlDelaySec).filter((d): d is number => d !== null);
+  const crawlDelayMs = delays.length > 0 ? Math.min(MAX_CRAWL_DELAY_MS, Math.max(...delays) * 1000) : null;
+
+  const path = normalizePath(pathWithQuery || '/');
+  if (path === '/robots.txt') return { allowed: true, crawlDelayMs, retryable: false };
+
+  let best: RobotsRule | null = null;
+  for (const rule of groups.flatMap((g) => g.rules)) {
+    if (!patternToRegExp(rule.pattern).test(path)) continue;
+    // Longest pattern wins; on a tie the least restrictive (Allow) rule wins.
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.allow && !best.allow)
+    ) {
+      best = rule;
+    }
   }
 
+  return { allowed: best ? best.allow : true, crawlDelayMs, retryable: false };
+}
+
+function isFresh(policy: RobotsPolicy, fetchedAt: number, now: number) {
+  const ttl = policy.transient ? TRANSIENT_TTL_MS : policy.unreachable ? UNREACHABLE_TTL_MS : TTL_MS;
+  return now - fetchedAt < ttl;
+}
+
+// Null on a network error or timeout. A host that never answers costs at most
+// ROBOTS_ATTEMPTS * ROBOTS_TIMEOUT_MS.
+async function fetchRobotsTxt(url: string, userAgent: string, fetcher: CanadaFetch) {
+  for (let attempt = 1; attempt <= ROBOTS_ATTEMPTS; attempt += 1) {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), ROBOTS_TIMEOUT_MS);
+    try {
+      const res = await fetcher(url, {
+        headers: {
+          'User-Agent': userAgent,
+          Accept: 'text/plain,*/*;q=0.8',
+        },
+        redirect: 'follow',
+        signal: controller.signal,
+      });
+      const text = res.ok ? await res.text() : '';
+      return { status: res.status, text };
+    } catch {
+      // Retried below.
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+  return null;
+}
+
+async function loadRobots(args: {
+  host: string;
+  origin: string;
+  userAgent: string;
+  store?: HostStateStore;
+  fetch?: CanadaFetch;
+}): Promise<RobotsPolicy> {
   const now = Date.now();
-  const cached = cache.get(host);
-  if (cached && now - cached.fetchedAt < TTL_MS) {
-    return !cached.rules.some((r) => r.disallow !== '/' && path.startsWith(r.disallow));
+  const cached = cache.get(args.host);
+  if (cached && isFresh(cached.policy, cached.fetchedAt, now)) return cached.policy;
+
+  const stored = await args.store?.getRobots(args.host);
+  if (stored && isFresh(stored.policy, stored.fetchedAt, now)) {
+    cache.set(args.host, stored);
+    return stored.policy;
   }
 
-  try {
-    const robotsUrl = `${origin}/robots.txt`;
-    const res = await fetch(robotsUrl, {
-      headers: {
-        'User-Agent': args.userAgent,
-        Accept: 'text/plain,*/*;q=0.8',
-      },
-    });
-
-    if (!res.ok) {
-      cache.set(host, { fetchedAt: now, rules: [] });
-      return true;
-    }
+  const store = async (policy: RobotsPolicy) => {
+    cache.set(args.host, { fetchedAt: now, policy });
+    await args.store?.setRobots(args.host, { fetchedAt: now, policy });
+    return policy;
+  };
+
+  const res = await fetchRobotsTxt(`${args.origin}/robots.txt`, args.userAgent, args.fetch ?? fetch);
+  if (!res) {
+    const policy: RobotsPolicy = { groups: [], sitemaps: [], unreachable: true, transient: true };
+    cache.set(args.host, { fetchedAt: now, policy });
+    return policy;
+  }
 
-    const text = await res.text();
-    const rules = parseRobots(text);
-    cache.set(host, { fetchedAt: now, rules });
+  // 4xx: robots.txt is "unavailable" and everything may be crawled.
+  if (res.status >= 400 && res.status < 500) {
+    return store({ groups: [], sitemaps: [], unreachable: false });
+  }
+  if (res.status < 200 || res.status >= 300) {
+    return store({ groups: [], sitemaps: [], unreachable: true });
+  }
+  return store(parseRobots(res.text));
+}
 
-    return !rules.some((r) => r.disallow !== '/' && path.startsWith(r.disallow));
+function splitUrl(url: string) {
+  try {
+    const u = new URL(url);
+    return {
+      host: getHost(url) ?? u.hostname,
+      origin: u.origin,
+      pathWithQuery: `${u.pathname || '/'}${u.search}`,
+    };
   } catch {
-    cache.set(host, { fetchedAt: now, rules: [] });
-    return true;
+    return null;
   }
 }
+
+export async function checkRobots(args: {
+  url: string;
+  userAgent: string;
+  store?: HostStateStore;
+  fetch?: CanadaFetch;
+}): Promise<RobotsDecision> {
+  const parts = splitUrl(args.url);
+  if (!parts) return { allowed: true, crawlDelayMs: null, retryable: false };
+
+  const policy = await loadRobots({
+    host: parts.host,
+    origin: parts.origin,
+    userAgent: args.userAgent,
+    store: args.store,
+    fetch: args.fetch,
+  });
+  return evaluateRobots(policy, args.userAgent, parts.pathWithQuery);
+}
+
+export async function isAllowedByRobots(args: {
+  url: string;
+  userAgent: string;
+  store?: HostStateStore;
+  fetch?: CanadaFetch;
+}): Promise<boolean> {
+  return (await checkRobots(args)).allowed;
+}
+
+export async function getRobotsSitemaps(args: {
+  url: string;
+  userAgent: string;
+  store?: HostStateStore;
+  fetch?: CanadaFetch;
+}): Promise<string[]> {
+  const parts = splitUrl(args.url);
+  if (!parts) return [];
+
+  const policy = await loadRobots({
+    host: parts.host,
+    origin: parts.origin,
+    userAgent: args.userAgent,
+    store: args.store,
+    fetch: args.fetch,
+  });
+  return policy.sitemaps;
+}
@@ -1,13 +1,18 @@
-import type { CanadaConfidence, CanadaOpportunityStatus } from '../../../src/lib/canada/constants';
+import type { CanadaOpportunityStatus } from '../../../src/lib/canada/constants';
 
 export type SafetyGateDecision = {
   status: CanadaOpportunityStatus;
   reason: string | null;
 };
 
-export function isExpired(deadlineDate: string | null, confidence: CanadaConfidence) {
+// Retiring a posting is costly if wrong, so a past deadline only expires it when the
+// date was read with more than middling confidence (a labelled, dated deadline on a
+// posting page, or structured data).
+export const EXPIRE_MIN_DEADLINE_SCORE = 65;
+
+export function isExpired(deadlineDate: string | null, deadlineScore: number) {
   if (!deadlineDate) return false;
-  if (confidence === 'LOW') return false;
+  if (deadlineScore < EXPIRE_MIN_DEADLINE_SCORE) return false;
   const today = new Date().toISOString().slice(0, 10);
   return deadlineDate < today;
 }
@@ -17,13 +22,13 @@ export function safetyGate(args: {
   loginWall: boolean;
   applicationUrl: string | null;
   deadlineDate: string | null;
-  deadlineConfidence: CanadaConfidence;
+  deadlineScore: number;
 }): SafetyGateDecision {
   if (args.blocked) return { status: 'BLOCKED', reason: 'blocked' };
   if (args.loginWall) return { status: 'BLOCKED', reason: 'login_wall' };
   if (!args.applicationUrl) return { status: 'NEEDS_REVIEW', reason: 'missing_application_url' };
 
-  if (isExpired(args.deadlineDate, args.deadlineConfidence)) {
+  if (isExpired(args.deadlineDate, args.deadlineScore)) {
     return { status: 'EXPIRED', reason: 'expired_deadline' };
   }
 
@@ -0,0 +1,170 @@
+// Runs fetches for many hosts in parallel while each host still sees one request at a
+// time, spaced by its min_delay_ms and held back while it is backing off. Fetches that
+// cannot start before the deadline or the request cap, or whose host is held back past
+// maxWaitMs, resolve to null and count as skipped.
+
+import { getHost } from './policy';
+
+const DEFAULT_MAX_IN_FLIGHT = 4;
+const DEFAULT_MAX_REQUESTS = 400;
+// The longest HostBackoff penalty, so a host is waited for only while its backoff is
+// plausible.
+const DEFAULT_MAX_WAIT_MS = 60_000;
+
+export type HostSchedulerOptions = {
+  // Fetches running at once, across all hosts.
+  maxInFlight: number;
+  // Fetches started over the scheduler's life.
+  maxRequests: number;
+  // Epoch ms after which nothing new is started.
+  deadline?: number;
+  // Longest a host is waited for; its fetches are skipped beyond that.
+  maxWaitMs?: number;
+  // Remaining HostBackoff penalty for a host.
+  backoffMs?: (host: string) => Promise<number>;
+};
+
+export type HostTask<T> = { url: string; minDelayMs: number; run: () => Promise<T> };
+
+type Entry = { seq: number; minDelayMs: number; run: () => Promise<void>; skip: () => void };
+
+type HostLane = {
+  queue: Entry[];
+  // A fetch is running, or the lane is settling after one.
+  busy: boolean;
+  readyAt: number;
+  checked: boolean;
+};
+
+// CANADA_CRAWL_CONCURRENCY and CANADA_CRAWL_MAX_REQUESTS override the defaults.
+export function schedulerLimitsFromEnv(): Pick<HostSchedulerOptions, 'maxInFlight' | 'maxRequests'> {
+  const positive = (raw: string | undefined, fallback: number) => {
+    const n = Number(raw);
+    return Number.isInteger(n) && n > 0 ? n : fallback;
+  };
+  return {
+    maxInFlight: positive(process.env.CANADA_CRAWL_CONCURRENCY, DEFAULT_MAX_IN_FLIGHT),
+    maxRequests: positive(process.env.CANADA_CRAWL_MAX_REQUESTS, DEFAULT_MAX_REQUESTS),
+  };
+}
+
+export class HostScheduler {
+  private readonly lanes = new Map<string, HostLane>();
+  private inFlight = 0;
+  private startedCount = 0;
+  private skippedCount = 0;
+  private seq = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private readonly options: HostSchedulerOptions) {}
+
+  get started() {
+    return this.startedCount;
+  }
+
+  get skipped() {
+    return this.skippedCount;
+  }
+
+  // Whether a newly scheduled fetch could still start.
+  get accepting() {
+    return this.startedCount < this.options.maxRequests && Date.now() < (this.options.deadline ?? Infinity);
+  }
+
+  schedule<T>(task: HostTask<T>): Promise<T | null> {
+    return new Promise<T | null>((resolve, reject) => {
+      const host = getHost(task.url) ?? 'unknown';
+      let lane = this.lanes.get(host);
+      if (!lane) {
+        lane = { queue: [], busy: false, readyAt: 0, checked: false };
+        this.lanes.set(host, lane);
+      }
+      lane.queue.push({
+        seq: this.seq++,
+        minDelayMs: task.minDelayMs,
+        run: () => task.run().then(resolve, reject),
+        skip: () => resolve(null),
+      });
+      this.pump();
+    });
+  }
+
+  // Starts the oldest waiting fetch among idle, ready hosts until the in-flight cap is
+  // reached, and wakes up again when the next spaced-out host becomes ready.
+  private pump() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const deadline = this.options.deadline ?? Infinity;
+    const maxWaitMs = this.options.maxWaitMs ?? DEFAULT_MAX_WAIT_MS;
+    let wakeAt = Infinity;
+
+    while (this.inFlight < this.options.maxInFlight) {
+      const now = Date.now();
+      let next: [string, HostLane] | null = null;
+      for (const [host, lane] of this.lanes) {
+        if (lane.busy || lane.queue.length === 0) continue;
+        if (!this.accepting || lane.readyAt >= deadline || lane.readyAt - now > maxWaitMs) {
+          for (const entry of lane.queue.splice(0)) {
+            this.skippedCount += 1;
+            entry.skip();
+          }
+          continue;
+        }
+        if (lane.readyAt > now) {
+          wakeAt = Math.min(wakeAt, lane.readyAt);
+          continue;
+        }
+        if (!next || lane.queue[0].seq < next[1].queue[0].seq) next = [host, lane];
+      }
+      if (!next) break;
+      this.start(...next);
+    }
+
+    if (wakeAt < Infinity && this.inFlight < this.options.maxInFlight) {
+      this.timer = setTimeout(() => this.pump(), Math.max(0, wakeAt - Date.now()));
+    }
+  }
+
+  private start(host: string, lane: HostLane) {
+    lane.busy = true;
+    this.inFlight += 1;
+    this.startedCount += 1;
+    void this.runLane(host, lane);
+  }
+
+  private async runLane(host: string, lane: HostLane) {
+    // A host backing off (possibly set by another invocation) would hold a slot for
+    // the whole penalty inside fetchPage; other hosts go first instead.
+    if (!lane.checked) {
+      lane.checked = true;
+      const penalty = await this.penaltyMs(host);
+      if (penalty > 0) {
+        lane.readyAt = Date.now() + penalty;
+        lane.busy = false;
+        this.inFlight -= 1;
+        this.startedCount -= 1;
+        this.pump();
+        return;
+      }
+    }
+
+    const entry = lane.queue.shift() as Entry;
+    await entry.run();
+    this.inFlight -= 1;
+    lane.readyAt = Date.now() + entry.minDelayMs;
+    this.pump();
+
+    // Picks up a penalty from this response while the host is spaced out anyway.
+    lane.readyAt = Math.max(lane.readyAt, Date.now() + (await this.penaltyMs(host)));
+    lane.busy = false;
+    this.pump();
+  }
+
+  private async penaltyMs(host: string) {
+    if (!this.options.backoffMs) return 0;
+    // fetchPage enforces the backoff itself; this only steers the order.
+    return this.options.backoffMs(host).catch(() => 0);
+  }
+}
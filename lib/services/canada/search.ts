@@ -0,0 +1,78 @@
+import fs from 'fs';
+import path from 'path';
+
+export type CanadaSearchResult = { url: string; title: string; snippet: string };
+
+// Runs GOOGLE_SEED queries. Swappable so discovery can run offline against fixtures.
+export interface SearchProvider {
+  readonly name: string;
+  search(query: string, options: { limit: number }): Promise<CanadaSearchResult[]>;
+}
+
+const GOOGLE_CSE_PAGE_SIZE = 10;
+
+// Google Programmable Search (Custom Search JSON API), the same account as the PhD hunter.
+export class GoogleCseSearchProvider implements SearchProvider {
+  readonly name = 'google_cse';
+
+  constructor(
+    private readonly apiKey = process.env.GOOGLE_SEARCH_API_KEY,
+    private readonly cx = process.env.GOOGLE_SEARCH_CX,
+  ) {}
+
+  async search(query: string, options: { limit: number }) {
+    if (!this.apiKey || !this.cx) {
+      console.warn('[canada-search] Google CSE env missing; skipping search seed');
+      return [];
+    }
+
+    const out: CanadaSearchResult[] = [];
+    for (let start = 1; out.length < options.limit && start <= 91; start += GOOGLE_CSE_PAGE_SIZE) {
+      const url = new URL('https://www.googleapis.com/customsearch/v1');
+      url.searchParams.set('key', this.apiKey);
+      url.searchParams.set('cx', this.cx);
+      url.searchParams.set('q', query);
+      url.searchParams.set('start', String(start));
+      url.searchParams.set('num', String(Math.min(GOOGLE_CSE_PAGE_SIZE, options.limit - out.length)));
+
+      const res = await fetch(url.toString());
+      if (!res.ok) {
+        console.warn('[canada-search] Google CSE HTTP error', res.status);
+        break;
+      }
+      const data = (await res.json()) as { items?: Array<{ link?: string; title?: string; snippet?: string }> };
+      const items = data.items ?? [];
+      for (const item of items) {
+        if (item.link) out.push({ url: item.link, title: item.title ?? '', snippet: item.snippet ?? '' });
+      }
+      if (items.length < GOOGLE_CSE_PAGE_SIZE) break;
+    }
+    return out.slice(0, options.limit);
+  }
+}
+
+// Canned results keyed by query, for local runs and tests without network access.
+// Unknown queries return nothing.
+export class FixtureSearchProvider implements SearchProvider {
+  readonly name = 'fixture';
+
+  constructor(private readonly results: Record<string, CanadaSearchResult[]>) {}
+
+  static fromFile(
+    file = process.env.CANADA_SEARCH_FIXTURES || path.join(process.cwd(), 'lib/services/canada/fixtures/search-results.json'),
+  ) {
+    return new FixtureSearchProvider(JSON.parse(fs.readFileSync(file, 'utf8')) as Record<string, CanadaSearchResult[]>);
+  }
+
+  async search(query: string, options: { limit: number }) {
+    const key = query.trim().toLowerCase();
+    const match = Object.entries(this.results).find(([q]) => q.trim().toLowerCase() === key);
+    return (match?.[1] ?? []).slice(0, options.limit);
+  }
+}
+
+// CANADA_SEARCH_PROVIDER=fixture selects the offline provider; anything else uses Google CSE.
+export function createSearchProvider(): SearchProvider {
+  if (process.env.CANADA_SEARCH_PROVIDER === 'fixture') return FixtureSearchProvider.fromFile();
+  return new GoogleCseSearchProvider();
+}
@@ -0,0 +1,134 @@
+import type { CanadaProgramType } from '../../../src/lib/canada/constants';
+import { canadaSupabase, type CanadaSeedStatsRow, type CanadaSupabaseClient } from './db';
+import type { CanadaSourceRow } from './types';
+import { canadaUrlKey } from './canonical';
+
+const BACKOFF_BASE_HOURS = 12;
+const BACKOFF_MAX_HOURS = 24 * 14;
+// Runs before a seed's yield is trusted for budgeting; until then it gets its configured budget.
+const MIN_RUNS_FOR_YIELD = 3;
+const MIN_BUDGET_FACTOR = 0.5;
+const MAX_BUDGET_FACTOR = 2;
+// Accept rate at which a seed earns exactly its configured budget.
+const TARGET_ACCEPT_RATE = 0.1;
+
+export type SeedRunOutcome = {
+  urlsVisited: number;
+  accepted: number;
+  blocked: number;
+  expired: number;
+  // Sitemap pages skipped because their lastmod matched the stored row; these keep a
+  // run from counting as empty.
+  unchanged: number;
+};
+
+export type ScheduledSource = { source: CanadaSourceRow; budget: number; stats: CanadaSeedStatsRow | null };
+
+// Curated sources have no seed_key; their base URL identifies them.
+export function seedKeyOf(source: Pick<CanadaSourceRow, 'seed_key' | 'base_url'>) {
+  return source.seed_key || canadaUrlKey(source.base_url) || source.base_url;
+}
+
+function statsKey(seedKey: string, programType: string, strategy: string) {
+  return `${programType}|${strategy}|${seedKey}`;
+}
+
+// Accepted postings per page fetched.
+export function seedAcceptRate(stats: Pick<CanadaSeedStatsRow, 'accepted' | 'urls_found'>) {
+  return stats.urls_found > 0 ? stats.accepted / stats.urls_found : 0;
+}
+
+export async function loadSeedStats(supabase: CanadaSupabaseClient, programType?: CanadaProgramType) {
+  let query = supabase.from('canada_seed_stats').select('*');
+  if (programType) query = query.eq('program_type', programType);
+  const { data, error } = await query.returns<CanadaSeedStatsRow[]>();
+  if (error) throw new Error(error.message);
+  return new Map((data ?? []).map((s) => [statsKey(s.seed_key, s.program_type, s.strategy), s]));
+}
+
+// Orders the sources to crawl this run and sizes their request budgets. Seeds in
+// backoff are left out; unproven seeds go first so they collect statistics, then
+// the rest by accept rate, with budgets scaled by how well each seed yields.
+export function scheduleSources(
+  sources: CanadaSourceRow[],
+  stats: Map<string, CanadaSeedStatsRow>,
+  now = new Date(),
+): { scheduled: ScheduledSource[]; deferred: CanadaSourceRow[] } {
+  const scheduled: ScheduledSource[] = [];
+  const deferred: CanadaSourceRow[] = [];
+
+  for (const source of sources) {
+    const s = stats.get(statsKey(seedKeyOf(source), source.program_type, source.strategy)) ?? null;
+    if (s?.next_run_at && Date.parse(s.next_run_at) > now.getTime()) {
+      deferred.push(source);
+      continue;
+    }
+
+    const hasYield = s !== null && s.runs_count >= MIN_RUNS_FOR_YIELD;
+    const factor = hasYield
+      ? Math.min(MAX_BUDGET_FACTOR, Math.max(MIN_BUDGET_FACTOR, seedAcceptRate(s) / TARGET_ACCEPT_RATE))
+      : 1;
+    scheduled.push({ source, stats: s, budget: Math.max(1, Math.round(source.max_requests_per_run * factor)) });
+  }
+
+  const proven = (entry: ScheduledSource) => (entry.stats?.runs_count ?? 0) >= MIN_RUNS_FOR_YIELD;
+  const rate = (entry: ScheduledSource) => (entry.stats ? seedAcceptRate(entry.stats) : 0);
+  scheduled.sort((a, b) => Number(proven(a)) - Number(proven(b)) || rate(b) - rate(a));
+
+  return { scheduled, deferred };
+}
+
+export async function recordSeedRun(source: CanadaSourceRow, outcome: SeedRunOutcome) {
+  const supabase = canadaSupabase();
+  const { error } = await supabase.rpc('canada_record_seed_run', {
+    p_seed_key: seedKeyOf(source),
+    p_program_type: source.program_type,
+    p_strategy: source.strategy,
+    p_urls_found: outcome.urlsVisited,
+    p_accepted: outcome.accepted,
+    p_blocked: outcome.blocked,
+    p_expired: outcome.expired,
+    p_unchanged: outcome.unchanged,
+    p_backoff_base_hours: BACKOFF_BASE_HOURS,
+    p_backoff_max_hours: BACKOFF_MAX_HOURS,
+  });
+  if (error) throw new Error(error.message);
+}
+
+export type SeedReportEntry = {
+  seed_key: string;
+  program_type: CanadaProgramType;
+  strategy: CanadaSeedStatsRow['strategy'];
+  runs_count: number;
+  urls_found: number;
+  accepted: number;
+  blocked: number;
+  expired: number;
+  accept_rate: number;
+  accepted_per_run: number;
+  consecutive_empty_runs: number;
+  next_run_at: string | null;
+  last_run_at: string | null;
+};
+
+// Seeds ranked by accept rate, then accepted postings per run.
+export async function buildSeedReport(args?: { programType?: CanadaProgramType; limit?: number }) {
+  const stats = await loadSeedStats(canadaSupabase(), args?.programType);
+  const entries: SeedReportEntry[] = Array.from(stats.values()).map((s) => ({
+    seed_key: s.seed_key,
+    program_type: s.program_type,
+    strategy: s.strategy,
+    runs_count: s.runs_count,
+    urls_found: s.urls_found,
+    accepted: s.accepted,
+    blocked: s.blocked,
+    expired: s.expired,
+    accept_rate: Math.round(seedAcceptRate(s) * 1000) / 1000,
+    accepted_per_run: s.runs_count > 0 ? Math.round((s.accepted / s.runs_count) * 100) / 100 : 0,
+    consecutive_empty_runs: s.consecutive_empty_runs,
+    next_run_at: s.next_run_at,
+    last_run_at: s.last_run_at,
+  }));
+  entries.sort((a, b) => b.accept_rate - a.accept_rate || b.accepted_per_run - a.accepted_per_run);
+  return entries.slice(0, args?.limit ?? entries.length);
+}
@@ -0,0 +1,93 @@
+import * as cheerio from 'cheerio';
+import { foldText } from './content';
+
+export type PostingSegment = {
+  // Stable within the page: the heading's own anchor when it has one, else a slug of its text.
+  fragmentId: string;
+  heading: string;
+  html: string;
+  text: string;
+};
+
+const HEADING_LEVELS = ['h2', 'h3', 'h4'] as const;
+const POSTING_HEADING =
+  /\b(ph\.?d\.?|doctoral|postdoc(toral)?|msc|m\.sc|master'?s|undergraduate|visiting|studentship|internship|intern|research assistant|fellowship|position|opening|doctorat|maitrise|postdoctora|stage|stagiaire|poste)\b/;
+const MIN_SEGMENTS = 2;
+const MIN_SEGMENT_CHARS = 120;
+const MAX_SEGMENT_LINK_DENSITY = 0.5;
+
+function clean(text: string) {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function slugify(text: string) {
+  return (
+    foldText(text)
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60) || 'posting'
+  );
+}
+
+function linkDensity(html: string) {
+  const $block = cheerio.load(html);
+  const text = clean($block.root().text());
+  if (!text) return 1;
+  const linked = $block('a[href]')
+    .toArray()
+    .reduce((sum, a) => sum + clean($block(a).text()).length, 0);
+  return linked / text.length;
+}
+
+// Splits a page listing several openings into one block per opening. Returns an
+// empty list when the page does not hold at least two self-contained postings
+// (teaser cards that only link to a detail page do not count).
+export function segmentPostings(html: string): PostingSegment[] {
+  const $ = cheerio.load(html);
+  $('script,style,noscript,svg,nav,header,footer').remove();
+  $('p,li,div,td,th,dd,dt,h1,h2,h3,h4,h5,h6,br,article,section').append(' ');
+
+  for (const tag of HEADING_LEVELS) {
+    const headings = $(tag)
+      .toArray()
+      .filter((h) => POSTING_HEADING.test(foldText(clean($(h).text()))));
+    if (headings.length < MIN_SEGMENTS) continue;
+
+    const level = Number(tag.slice(1));
+    const used = new Map<string, number>();
+    const segments: PostingSegment[] = [];
+
+    for (const h of headings) {
+      const heading = $(h);
+      const title = clean(heading.text());
+
+      // A heading's block is its enclosing card when the card starts with it and holds
+      // no other posting heading; otherwise the heading plus following siblings up to
+      // the next heading of the same or a higher level.
+      const parent = heading.parent();
+      const ownCard =
+        parent.is('section,article,li,div') &&
+        parent.children().first().is(heading) &&
+        parent.find(tag).toArray().filter((other) => headings.includes(other)).length === 1;
+      const parts = [$.html(ownCard ? parent : heading)];
+      for (let next = heading.next(); !ownCard && next.length > 0; next = next.next()) {
+        const m = String(next.prop('tagName') ?? '').toLowerCase().match(/^h([1-6])$/);
+        if (m && Number(m[1]) <= level) break;
+        parts.push($.html(next));
+      }
+      const block = parts.join('');
+
+      const text = clean(cheerio.load(block).root().text());
+      if (text.length < MIN_SEGMENT_CHARS || linkDensity(block) > MAX_SEGMENT_LINK_DENSITY) continue;
+
+      const base = heading.attr('id') || (ownCard ? parent.attr('id') : undefined) || slugify(title);
+      const seen = used.get(base) ?? 0;
+      used.set(base, seen + 1);
+      segments.push({ fragmentId: seen === 0 ? base : `${base}-${seen + 1}`, heading: title, html: block, text });
+    }
+
+    if (segments.length >= MIN_SEGMENTS) return segments;
+  }
+
+  return [];
+}
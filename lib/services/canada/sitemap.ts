@@ -0,0 +1,183 @@
+import zlib from 'zlib';
+import * as cheerio from 'cheerio';
+import { getRobotsSitemaps } from './robots';
+import type { HostStateStore } from './hostState';
+import type { CanadaFetch } from './archive';
+import { readBodyWithLimit } from './body';
+
+export type SitemapEntry = {
+  loc: string;
+  lastmod: string | null;
+};
+
+const MAX_SITEMAP_FILES = 25;
+const MAX_SITEMAP_BYTES = 10_000_000;
+const MAX_SITEMAP_ENTRIES = 50_000;
+
+// Fetches one sitemap file; null when it was not sent because the host is backing off.
+export type SitemapFetch = (url: string, init: RequestInit) => Promise<Response | null>;
+
+function isGzip(bytes: Uint8Array) {
+  return bytes.length >= 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+}
+
+// 'deferred' when the host is backing off; null when the file could not be read.
+async function fetchSitemapXml(
+  url: string,
+  userAgent: string,
+  timeoutMs: number,
+  fetcher: SitemapFetch,
+): Promise<string | 'deferred' | null> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const res = await fetcher(url, {
+      headers: {
+        'User-Agent': userAgent,
+        Accept: 'application/xml,text/xml,application/x-gzip;q=0.9,*/*;q=0.8',
+      },
+      redirect: 'follow',
+      signal: controller.signal,
+    });
+    if (!res) return 'deferred';
+    if (!res.ok) return null;
+
+    const { bytes, exceeded } = await readBodyWithLimit(res, MAX_SITEMAP_BYTES);
+    if (exceeded) return null;
+
+    // Servers usually send .xml.gz as a plain binary body rather than with Content-Encoding.
+    // The cap applies to the inflated XML too; gunzip throws past it.
+    const raw = isGzip(bytes) ? zlib.gunzipSync(bytes, { maxOutputLength: MAX_SITEMAP_BYTES }) : bytes;
+    return new TextDecoder('utf-8', { fatal: false }).decode(raw);
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+function normalizeLastmod(value: string | undefined) {
+  const v = (value ?? '').trim();
+  if (!v) return null;
+  const parsed = new Date(v);
+  return Number.isFinite(parsed.getTime()) ? parsed.toISOString() : null;
+}
+
+export function parseSitemapXml(xml: string): { sitemaps: string[]; entries: SitemapEntry[] } {
+  const $ = cheerio.load(xml, { xml: true });
+
+  const sitemaps = $('sitemapindex > sitemap > loc')
+    .toArray()
+    .map((el) => $(el).text().trim())
+    .filter(Boolean);
+
+  const entries = $('urlset > url')
+    .toArray()
+    .map((el) => {
+      const loc = $(el).children('loc').first().text().trim();
+      if (!loc) return null;
+      return { loc, lastmod: normalizeLastmod($(el).children('lastmod').first().text()) };
+    })
+    .filter((v): v is SitemapEntry => Boolean(v));
+
+  return { sitemaps, entries };
+}
+
+// Where reading a source's sitemaps stands, so it can go on in a later invocation.
+export type SitemapCursor = {
+  // Sitemap files still to read; null until robots.txt was checked for declared ones.
+  pending: string[] | null;
+  read: string[];
+};
+
+export function newSitemapCursor(): SitemapCursor {
+  return { pending: null, read: [] };
+}
+
+// Whether the cursor has nothing left to read.
+export function sitemapsDone(cursor: SitemapCursor) {
+  return cursor.pending !== null && (cursor.pending.length === 0 || cursor.read.length >= MAX_SITEMAP_FILES);
+}
+
+// Bounds every request, whatever its own timeout, by the deadline.
+function untilDeadline(fetcher: CanadaFetch, deadline: number): CanadaFetch {
+  if (!Number.isFinite(deadline)) return fetcher;
+  return (input, init) => {
+    const cutoff = AbortSignal.timeout(Math.max(1, deadline - Date.now()));
+    return fetcher(input, { ...init, signal: init?.signal ? AbortSignal.any([init.signal, cutoff]) : cutoff });
+  };
+}
+
+// Reads sitemap files from the cursor until none are left or the deadline (epoch ms)
+// comes; a file cut off by the deadline stays pending. When the host is backing off,
+// the files not yet read are given up. Returns the entries found by this call.
+export async function readSitemaps(
+  cursor: SitemapCursor,
+  args: {
+    baseUrl: string;
+    userAgent: string;
+    timeoutMs: number;
+    deadline: number;
+    hostState?: HostStateStore;
+    // For robots.txt.
+    fetch?: CanadaFetch;
+    // For the sitemap files; defaults to `fetch` with no politeness.
+    fetchSitemap?: SitemapFetch;
+  },
+): Promise<SitemapEntry[]> {
+  let origin: string;
+  try {
+    origin = new URL(args.baseUrl).origin;
+  } catch {
+    cursor.pending = [];
+    return [];
+  }
+
+  const fetcher = args.fetch ?? fetch;
+  const fetchSitemap = args.fetchSitemap ?? fetcher;
+  if (cursor.pending === null) {
+    const declared = await getRobotsSitemaps({
+      url: args.baseUrl,
+      userAgent: args.userAgent,
+      store: args.hostState,
+      fetch: untilDeadline(fetcher, args.deadline),
+    });
+    // Cut off: robots.txt is checked again next time.
+    if (Date.now() >= args.deadline) return [];
+    cursor.pending = declared.length > 0 ? [...declared] : [`${origin}/sitemap.xml`];
+  }
+
+  const { pending } = cursor;
+  const entries = new Map<string, SitemapEntry>();
+  while (pending.length > 0 && cursor.read.length < MAX_SITEMAP_FILES && entries.size < MAX_SITEMAP_ENTRIES) {
+    const left = args.deadline - Date.now();
+    if (left <= 0) break;
+    const sitemapUrl = pending[0];
+    if (cursor.read.includes(sitemapUrl)) {
+      pending.shift();
+      continue;
+    }
+
+    const xml = await fetchSitemapXml(sitemapUrl, args.userAgent, Math.min(args.timeoutMs, left), fetchSitemap);
+    if (xml === null && Date.now() >= args.deadline) break;
+    pending.shift();
+    // The host is backing off: its other sitemap files would be held back too.
+    if (xml === 'deferred') {
+      pending.length = 0;
+      break;
+    }
+    cursor.read.push(sitemapUrl);
+    if (!xml) continue;
+
+    const parsed = parseSitemapXml(xml);
+    pending.push(...parsed.sitemaps.filter((u) => !cursor.read.includes(u) && !pending.includes(u)));
+
+    for (const entry of parsed.entries) {
+      if (entries.size >= MAX_SITEMAP_ENTRIES) break;
+      if (!entries.has(entry.loc)) entries.set(entry.loc, entry);
+    }
+  }
+
+  return Array.from(entries.values());
+}
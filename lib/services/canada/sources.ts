@@ -0,0 +1,282 @@
+import { CANADA_PROGRAM_TYPES, type CanadaProgramType } from '../../../src/lib/canada/constants';
+import { canadaSupabase, type CanadaSourceRow as CanadaSourceDbRow } from './db';
+import type { CanadaSourceReviewStatus, CanadaSourceRow, CanadaSourceStrategy } from './types';
+import { cleanUrl } from './canonical';
+import { isBlacklistedHost } from './policy';
+import { checkRobots } from './robots';
+import { CanadaHttpClient } from './http';
+import { InMemoryHostStateStore } from './hostState';
+import { urlAllowed } from './discover';
+
+// Admin management of canada_sources. Inputs arrive as untrusted JSON; everything
+// is checked here before it reaches the table's own constraints.
+
+const STRATEGIES: readonly CanadaSourceStrategy[] = ['GOOGLE_SEED', 'CURATED', 'OPPORTUNISTIC'];
+const REVIEW_STATUSES: readonly CanadaSourceReviewStatus[] = ['PENDING', 'APPROVED', 'REJECTED'];
+
+const MAX_PATHS = 50;
+const MAX_PATH_LENGTH = 200;
+const MAX_DEPTH = 3;
+const MAX_REQUESTS_PER_RUN = 200;
+// Below this a single source could hammer a small lab site.
+const MIN_DELAY_MS = 500;
+const MAX_DELAY_MS = 60_000;
+const MAX_NOTES_LENGTH = 1000;
+
+export type SourceInput = {
+  program_type: CanadaProgramType;
+  strategy: CanadaSourceStrategy;
+  seed_key: string | null;
+  base_url: string;
+  allow_paths: string[];
+  block_paths: string[];
+  max_depth: number;
+  active: boolean;
+  respect_robots: boolean;
+  max_requests_per_run: number;
+  min_delay_ms: number;
+  review_status: CanadaSourceReviewStatus;
+  notes: string | null;
+};
+
+// Another source already has this program_type, strategy and base_url.
+export class CanadaSourceConflictError extends Error {}
+
+function sourceWriteError(error: { code?: string; message: string }) {
+  if (error.code === '23505') {
+    return new CanadaSourceConflictError('a source with this program_type, strategy and base_url already exists');
+  }
+  return new Error(error.message);
+}
+
+export type SourceValidation = { ok: true; value: SourceInput } | { ok: false; errors: string[] };
+
+// Defaults for a new source; admin-created sources are approved and run right away.
+const SOURCE_DEFAULTS: Omit<SourceInput, 'program_type' | 'strategy' | 'base_url'> = {
+  seed_key: null,
+  allow_paths: [],
+  block_paths: [],
+  max_depth: 1,
+  active: true,
+  respect_robots: true,
+  max_requests_per_run: 20,
+  min_delay_ms: 750,
+  review_status: 'APPROVED',
+  notes: null,
+};
+
+const EDITABLE_FIELDS = [
+  'program_type',
+  'strategy',
+  'seed_key',
+  'base_url',
+  'allow_paths',
+  'block_paths',
+  'max_depth',
+  'active',
+  'respect_robots',
+  'max_requests_per_run',
+  'min_delay_ms',
+  'review_status',
+  'notes',
+] as const satisfies readonly (keyof SourceInput)[];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkInt(errors: string[], field: string, value: unknown, min: number, max: number) {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    errors.push(`${field} must be an integer between ${min} and ${max}`);
+  }
+}
+
+function checkPaths(errors: string[], field: string, value: unknown) {
+  if (!Array.isArray(value)) {
+    errors.push(`${field} must be an array of path prefixes`);
+    return;
+  }
+  if (value.length > MAX_PATHS) errors.push(`${field} may hold at most ${MAX_PATHS} prefixes`);
+  for (const p of value) {
+    if (typeof p !== 'string' || !p.startsWith('/') || p.length > MAX_PATH_LENGTH || /[\s?#]/.test(p)) {
+      errors.push(`${field} entries must be path prefixes starting with "/" (no query, fragment or spaces): ${JSON.stringify(p)}`);
+    }
+  }
+}
+
+function checkBaseUrl(errors: string[], value: unknown) {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    errors.push('base_url is required');
+    return;
+  }
+  let parsed: URL;
+  try {
+    parsed = new URL(value);
+  } catch {
+    errors.push('base_url must be an absolute URL');
+    return;
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') errors.push('base_url must use http or https');
+  if (parsed.username || parsed.password) errors.push('base_url must not carry credentials');
+  if (isBlacklistedHost(value)) errors.push('base_url host is blacklisted');
+  if (!cleanUrl(value)) errors.push('base_url could not be normalized');
+}
+
+// Validates a complete source. Updates merge the patch over the stored row first,
+// so rules spanning fields (approval, seed queries, path rules) see the final state.
+export function validateSource(input: unknown): SourceValidation {
+  if (!isRecord(input)) return { ok: false, errors: ['body must be a JSON object'] };
+  const errors: string[] = [];
+
+  const unknownFields = Object.keys(input).filter((k) => !(EDITABLE_FIELDS as readonly string[]).includes(k));
+  if (unknownFields.length > 0) errors.push(`unknown fields: ${unknownFields.join(', ')}`);
+
+  if (!(CANADA_PROGRAM_TYPES as readonly unknown[]).includes(input.program_type)) {
+    errors.push(`program_type must be one of ${CANADA_PROGRAM_TYPES.join(', ')}`);
+  }
+  if (!(STRATEGIES as readonly unknown[]).includes(input.strategy)) {
+    errors.push(`strategy must be one of ${STRATEGIES.join(', ')}`);
+  }
+  if (!(REVIEW_STATUSES as readonly unknown[]).includes(input.review_status)) {
+    errors.push(`review_status must be one of ${REVIEW_STATUSES.join(', ')}`);
+  }
+
+  checkBaseUrl(errors, input.base_url);
+  checkPaths(errors, 'allow_paths', input.allow_paths);
+  checkPaths(errors, 'block_paths', input.block_paths);
+  checkInt(errors, 'max_depth', input.max_depth, 0, MAX_DEPTH);
+  checkInt(errors, 'max_requests_per_run', input.max_requests_per_run, 1, MAX_REQUESTS_PER_RUN);
+  checkInt(errors, 'min_delay_ms', input.min_delay_ms, MIN_DELAY_MS, MAX_DELAY_MS);
+
+  if (typeof input.active !== 'boolean') errors.push('active must be a boolean');
+  if (typeof input.respect_robots !== 'boolean') errors.push('respect_robots must be a boolean');
+  if (input.seed_key !== null && typeof input.seed_key !== 'string') errors.push('seed_key must be a string or null');
+  if (input.notes !== null && (typeof input.notes !== 'string' || input.notes.length > MAX_NOTES_LENGTH)) {
+    errors.push(`notes must be a string of at most ${MAX_NOTES_LENGTH} characters, or null`);
+  }
+  if (errors.length > 0) return { ok: false, errors };
+
+  const value = input as SourceInput;
+  if (value.strategy === 'GOOGLE_SEED' && !value.seed_key?.trim()) {
+    errors.push('GOOGLE_SEED sources need a search query in seed_key');
+  }
+  if (value.active && value.review_status !== 'APPROVED') {
+    errors.push('only APPROVED sources can be active');
+  }
+  // Ignoring robots.txt is only acceptable with the site's permission on record.
+  if (!value.respect_robots && !value.notes?.trim()) {
+    errors.push('respect_robots=false needs notes recording the site owner\'s permission');
+  }
+  const overlap = value.allow_paths.filter((p) => value.block_paths.includes(p));
+  if (overlap.length > 0) errors.push(`paths both allowed and blocked: ${overlap.join(', ')}`);
+  if (value.strategy !== 'GOOGLE_SEED' && !urlAllowed(value.base_url, value)) {
+    errors.push('base_url is excluded by its own allow_paths/block_paths');
+  }
+  if (errors.length > 0) return { ok: false, errors };
+
+  return {
+    ok: true,
+    value: {
+      ...value,
+      base_url: cleanUrl(value.base_url) ?? value.base_url,
+      seed_key: value.seed_key?.trim() || null,
+      notes: value.notes?.trim() || null,
+    },
+  };
+}
+
+// The live robots.txt check: a source that respects robots must be allowed to fetch
+// its entry point, and must not crawl faster than the declared Crawl-delay.
+export async function checkSourceRobots(source: Pick<SourceInput, 'base_url' | 'respect_robots' | 'min_delay_ms'>) {
+  if (!source.respect_robots) return [];
+  const decision = await checkRobots({
+    url: source.base_url,
+    userAgent: new CanadaHttpClient().userAgent,
+    store: new InMemoryHostStateStore(),
+  });
+  const errors: string[] = [];
+  if (!decision.allowed) {
+    errors.push(
+      decision.retryable
+        ? 'robots.txt could not be fetched; try again later'
+        : 'robots.txt disallows base_url for our crawler',
+    );
+  }
+  if (decision.crawlDelayMs !== null && source.min_delay_ms < decision.crawlDelayMs) {
+    errors.push(`min_delay_ms is below the robots.txt Crawl-delay (${decision.crawlDelayMs} ms)`);
+  }
+  return errors;
+}
+
+export function withSourceDefaults(input: unknown): unknown {
+  return isRecord(input) ? { ...SOURCE_DEFAULTS, ...input } : input;
+}
+
+function editableFields(row: CanadaSourceDbRow): SourceInput {
+  return Object.fromEntries(EDITABLE_FIELDS.map((f) => [f, row[f]])) as SourceInput;
+}
+
+export function mergeSourcePatch(row: CanadaSourceDbRow, patch: unknown): unknown {
+  return isRecord(patch) ? { ...editableFields(row), ...patch } : patch;
+}
+
+// The row shape discovery runs on, for test-crawling a source that is not saved yet.
+export function draftSourceRow(value: SourceInput): CanadaSourceRow {
+  return { ...value, id: 'draft', proposed_from: null };
+}
+
+export async function listSources(filters?: {
+  programType?: CanadaProgramType;
+  strategy?: CanadaSourceStrategy;
+  reviewStatus?: CanadaSourceReviewStatus;
+  active?: boolean;
+}) {
+  let query = canadaSupabase().from('canada_sources').select('*').order('created_at', { ascending: false });
+  if (filters?.programType) query = query.eq('program_type', filters.programType);
+  if (filters?.strategy) query = query.eq('strategy', filters.strategy);
+  if (filters?.reviewStatus) query = query.eq('review_status', filters.reviewStatus);
+  if (filters?.active !== undefined) query = query.eq('active', filters.active);
+
+  const { data, error } = await query.returns<CanadaSourceDbRow[]>();
+  if (error) throw new Error(error.message);
+  return data ?? [];
+}
+
+export async function getSource(id: string) {
+  const { data, error } = await canadaSupabase()
+    .from('canada_sources')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle<CanadaSourceDbRow>();
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+export async function createSource(value: SourceInput) {
+  const { data, error } = await canadaSupabase().from('canada_sources').insert(value).select('*').single<CanadaSourceDbRow>();
+  if (error) throw sourceWriteError(error);
+  return data;
+}
+
+export async function updateSource(id: string, value: SourceInput) {
+  const { data, error } = await canadaSupabase()
+    .from('canada_sources')
+    .update(value)
+    .eq('id', id)
+    .select('*')
+    .maybeSingle<CanadaSourceDbRow>();
+  if (error) throw sourceWriteError(error);
+  return data;
+}
+
+// Sources are never deleted: fetch logs and seed statistics refer to them.
+export async function deactivateSource(id: string) {
+  const { data, error } = await canadaSupabase()
+    .from('canada_sources')
+    .update({ active: false })
+    .eq('id', id)
+    .select('*')
+    .maybeSingle<CanadaSourceDbRow>();
+  if (error) throw new Error(error.message);
+  return data;
+}
@@ -7,8 +7,13 @@ import type {
 } from '../../../src/lib/canada/constants';
 
 export type CanadaSourceStrategy = 'GOOGLE_SEED' | 'CURATED' | 'OPPORTUNISTIC';
+export type CanadaSourceReviewStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+export type CanadaDiscoverMode = 'CRAWL' | 'SITEMAP';
+export type CanadaVerifyMode = 'OLDEST' | 'PRIORITY';
+export type CanadaPageKind = 'LISTING' | 'POSTING' | 'IRRELEVANT';
 export type CanadaFetchAction = 'DISCOVER' | 'VERIFY';
-export type CanadaFetchStatus = 'OK' | 'NOT_MODIFIED' | 'BLOCKED' | 'ERROR';
+// DEFERRED: not sent, as the host was backing off longer than the caller could wait.
+export type CanadaFetchStatus = 'OK' | 'NOT_MODIFIED' | 'BLOCKED' | 'ERROR' | 'DEFERRED';
 
 export type CanadaSourceRow = {
   id: string;
@@ -23,6 +28,9 @@ export type CanadaSourceRow = {
   respect_robots: boolean;
   max_requests_per_run: number;
   min_delay_ms: number;
+  review_status: CanadaSourceReviewStatus;
+  // Page whose outbound link proposed this source (OPPORTUNISTIC only).
+  proposed_from: string | null;
 };
 
 export type CanadaOpportunityInsert = {
@@ -70,4 +78,9 @@ export type CanadaFetchResult = {
   bodyText: string | null;
   blockedReason: string | null;
   errorMessage: string | null;
+  // No response came back at all: DNS, connection or timeout failure.
+  unreachable: boolean;
+  attempt: number;
+  // Earlier attempts of the same call that were retried (bodies are never kept).
+  priorAttempts: CanadaFetchResult[];
 };
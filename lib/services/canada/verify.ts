@@ -1,103 +1,337 @@
 import type { CanadaProgramType } from '../../../src/lib/canada/constants';
-import { canadaSupabase } from './db';
+import {
+  canadaSupabase,
+  type CanadaOpportunityRow,
+  type CanadaOpportunityUpdate,
+  type CanadaRevisionInsert,
+  type CanadaSupabaseClient,
+} from './db';
 import { CanadaHttpClient } from './http';
-import { buildOpportunityFromHtml } from './extract';
-import { computeContentHash, looksBlocked, looksLikeLoginWall } from './content';
+import type { HttpArchiveOptions } from './archive';
+import { SupabaseHostStateStore } from './hostState';
+import { buildOpportunitiesFromHtml } from './extract';
+import { looksBlocked, looksLikeLoginWall } from './content';
 import { safetyGate } from './safetyGate';
-import type { Database } from '../../../src/lib/database.types';
+import { buildFetchLogRows, createFetchLogWriter } from './fetchLog';
+import { canadaUrlKey, resolveCanonicalUrl } from './canonical';
+import { fingerprintBands } from './fingerprint';
+import { resolveNearDuplicates } from './dedupe';
+import { classifyPage } from './classify';
+import { buildRevision, insertRevisions } from './revisions';
+import { WriteBatcher } from './batch';
+import { HostScheduler, schedulerLimitsFromEnv } from './scheduler';
+import { loadVerifyQueue, VERIFIED_STATUSES } from './priority';
+import type { CanadaVerifyMode } from './types';
+import {
+  failedFetchCheck,
+  livenessThresholdsFromEnv,
+  nextLiveness,
+  unchangedPageCheck,
+  type LivenessCheck,
+} from './liveness';
+
+const VERIFY_MIN_DELAY_MS = 900;
+const VERIFY_WRITE_BATCH = { maxSize: 25, lingerMs: 250 };
+
+type VerifyWrite = { row: CanadaOpportunityRow; update: CanadaOpportunityUpdate; revision: CanadaRevisionInsert | null };
+
+// Returns a writer for verify's row updates and revisions. Updates from concurrent
+// checks go out in one call that sets only the columns each update names, so a value
+// another writer stored since the row was read is not put back. Each call resolves
+// with the write's error message, or null once it landed.
+function createVerifyWriter(supabase: CanadaSupabaseClient) {
+  const batcher = new WriteBatcher<VerifyWrite, string | null>(async (writes) => {
+    const { data, error } = await supabase.rpc('canada_patch_opportunities', {
+      p_patches: writes.map(({ row, update }) => ({ id: row.id, patch: update })),
+    });
+    const failed = new Map((data ?? []).map((r) => [r.id, r.error]));
+    const errors = writes.map((w) => (error ? error.message : (failed.get(w.row.id) ?? null)));
+
+    const revised = writes.flatMap((w, i) => (w.revision && errors[i] === null ? [i] : []));
+    try {
+      await insertRevisions(supabase, revised.map((i) => writes[i].revision as CanadaRevisionInsert));
+    } catch (e) {
+      for (const i of revised) errors[i] = e instanceof Error ? e.message : String(e);
+    }
+    return errors;
+  }, VERIFY_WRITE_BATCH);
+  return (write: VerifyWrite) => batcher.add(write);
+}
 
 function freshnessScoreFromHours(hours: number) {
   const score = 100 - Math.floor(hours * 5);
   return Math.max(0, Math.min(100, score));
 }
 
-export async function runCanadaVerify(args?: { programType?: CanadaProgramType; limit?: number }) {
+// Where a verify run writes. Null for test runs, which need no database and write
+// nothing.
+type VerifyWriters = {
+  supabase: CanadaSupabaseClient;
+  writeFetchLog: ReturnType<typeof createFetchLogWriter>;
+  writeRow: ReturnType<typeof createVerifyWriter>;
+};
+
+// Filled by test runs instead of writing: each row update verify would have made.
+export type VerifyTrace = {
+  updates: Array<{ id: string; update: CanadaOpportunityUpdate; revision: CanadaRevisionInsert | null }>;
+};
+
+type VerifyContext = {
+  http: CanadaHttpClient;
+  scheduler: HostScheduler;
+  writers: VerifyWriters | null;
+  trace: VerifyTrace | null;
+};
+
+// OLDEST verifies the least recently checked rows; PRIORITY ranks rows by deadline,
+// change history, bookmarks and staleness (see priority.ts).
+export async function runCanadaVerify(args?: {
+  programType?: CanadaProgramType;
+  limit?: number;
+  concurrency?: number;
+  mode?: CanadaVerifyMode;
+}) {
   const limit = args?.limit ?? 25;
+  const mode = args?.mode ?? 'OLDEST';
   const supabase = canadaSupabase();
-  const http = new CanadaHttpClient();
+  const http = new CanadaHttpClient({ hostState: new SupabaseHostStateStore(supabase) });
+  const limits = schedulerLimitsFromEnv();
+  const scheduler = new HostScheduler({
+    maxInFlight: Math.max(1, args?.concurrency ?? limits.maxInFlight),
+    maxRequests: limits.maxRequests,
+    backoffMs: (host) => http.backoffRemainingMs(host),
+  });
+  const writers = { supabase, writeFetchLog: createFetchLogWriter(supabase), writeRow: createVerifyWriter(supabase) };
+
+  const rows = await loadVerifyRows(supabase, { programType: args?.programType, limit, mode });
+  return verifyRows(rows, mode, { http, scheduler, writers, trace: null });
+}
+
+// Verifies the given rows (say, saved from an earlier run) without a database: pages
+// come from the network or an HTTP archive, and the updates are returned, not written.
+// A changed canonical URL is never merged here, as that needs the other rows.
+export async function testVerifyRows(rows: CanadaOpportunityRow[], args?: { archive?: HttpArchiveOptions | null }) {
+  const trace: VerifyTrace = { updates: [] };
+  const ctx: VerifyContext = {
+    http: new CanadaHttpClient({ archive: args?.archive }),
+    // One fetch at a time, so the trace lists rows in order.
+    scheduler: new HostScheduler({ maxInFlight: 1, maxRequests: Math.max(1, rows.length) }),
+    writers: null,
+    trace,
+  };
+  const summary = await verifyRows(rows, 'OLDEST', ctx);
+  return { summary, ...trace };
+}
 
-  type OpportunityRow = Database['public']['Tables']['canada_opportunity']['Row'];
+export async function loadVerifyRows(
+  supabase: CanadaSupabaseClient,
+  args: { programType?: CanadaProgramType; limit: number; mode: CanadaVerifyMode },
+) {
+  const { programType, limit } = args;
+  if (args.mode === 'PRIORITY') {
+    const queue = await loadVerifyQueue(supabase, { programType, limit });
+    const { data, error } = await supabase
+      .from('canada_opportunity')
+      .select('*')
+      .in('id', queue.map((p) => p.id))
+      .returns<CanadaOpportunityRow[]>();
+    if (error) throw new Error(error.message);
+    // Highest priority first, so it gets its host's first slot.
+    const rank = new Map(queue.map((p, i) => [p.id, i]));
+    return (data ?? []).sort((a, b) => (rank.get(a.id) ?? 0) - (rank.get(b.id) ?? 0));
+  }
 
   let query = supabase
     .from('canada_opportunity')
     .select('*')
-    .in('status', ['ACTIVE', 'NEEDS_REVIEW', 'BLOCKED'])
+    .in('status', VERIFIED_STATUSES)
     .order('last_verified_at', { ascending: true })
     .limit(limit);
 
-  if (args?.programType) {
-    query = query.eq('program_type', args.programType);
+  if (programType) {
+    query = query.eq('program_type', programType);
   }
 
-  const { data: rows, error } = await query.returns<OpportunityRow[]>();
+  const { data, error } = await query.returns<CanadaOpportunityRow[]>();
   if (error) throw new Error(error.message);
+  return data ?? [];
+}
 
+async function verifyRows(rows: CanadaOpportunityRow[], mode: CanadaVerifyMode, ctx: VerifyContext) {
+  const { http, scheduler, writers, trace } = ctx;
+  const thresholds = livenessThresholdsFromEnv();
   const now = new Date();
-  const summary = { checked: 0, updated: 0, notModified: 0, blocked: 0, errors: 0 };
+  const summary = {
+    mode,
+    checked: 0,
+    updated: 0,
+    notModified: 0,
+    blocked: 0,
+    errors: 0,
+    missing: 0,
+    merged: 0,
+    revisions: 0,
+    removed: 0,
+    filled: 0,
+    // Rows not fetched because their host was backing off for too long.
+    skipped: 0,
+    // Row updates or revisions that failed to save; the row is checked again next run.
+    writeErrors: 0,
+    lastWriteError: null as string | null,
+  };
+  const verifiedIds: string[] = [];
 
-  for (const row of rows ?? []) {
-    summary.checked += 1;
+  // Whether the write landed. Failures are reported in the summary rather than thrown,
+  // so one row cannot abort the run.
+  const save = async (row: CanadaOpportunityRow, update: CanadaOpportunityUpdate, revision: CanadaRevisionInsert | null = null) => {
+    if (!writers) {
+      trace?.updates.push({ id: row.id, update, revision });
+      return true;
+    }
+    const error = await writers.writeRow({ row, update, revision });
+    if (error !== null) {
+      summary.writeErrors += 1;
+      summary.lastWriteError = error;
+    }
+    return error === null;
+  };
 
-    const fetched = await http.fetchPage({
+  // Liveness columns after a check, and the status when a retirement rule fired.
+  const checkLiveness = (row: CanadaOpportunityRow, check: LivenessCheck) => {
+    const { transition, ...liveness } = nextLiveness(row, check, thresholds);
+    if (transition?.status === 'REMOVED') summary.removed += 1;
+    if (transition?.status === 'FILLED') summary.filled += 1;
+    return { liveness, transition };
+  };
+
+  // Rows on different hosts are fetched in parallel; each host still one at a time.
+  const verifyOne = async (row: CanadaOpportunityRow) => {
+    const fetched = await scheduler.schedule({
       url: row.canonical_url,
-      canonicalUrl: row.canonical_url,
-      timeoutMs: 20_000,
-      minDelayMs: 900,
-      maxBytes: 450_000,
-      conditional: { etag: row.etag ?? null, lastModified: row.page_last_modified ?? null },
-      respectRobots: false,
+      minDelayMs: VERIFY_MIN_DELAY_MS,
+      run: () =>
+        http.fetchPage({
+          url: row.canonical_url,
+          canonicalUrl: row.canonical_url,
+          timeoutMs: 20_000,
+          minDelayMs: VERIFY_MIN_DELAY_MS,
+          maxBytes: 450_000,
+          conditional: { etag: row.etag ?? null, lastModified: row.page_last_modified ?? null },
+          respectRobots: false,
+        }),
     });
+    if (!fetched) {
+      summary.skipped += 1;
+      return;
+    }
+    summary.checked += 1;
 
-    await supabase.from('canada_fetch_logs').insert({
-      action: 'VERIFY',
-      status: fetched.status,
-      program_type: row.program_type,
-      source_id: null,
-      canonical_url: row.canonical_url,
-      fetched_url: fetched.fetchedUrl,
-      http_status: fetched.httpStatus,
-      elapsed_ms: fetched.elapsedMs,
-      response_bytes: fetched.responseBytes,
-      etag: fetched.etag,
-      page_last_modified: fetched.lastModified,
-      content_hash: fetched.bodyText ? computeContentHash(fetched.bodyText.slice(0, 20000)) : null,
-      blocked_reason: fetched.blockedReason,
-      error_message: fetched.errorMessage,
-    });
+    const fetchLogId = writers
+      ? await writers.writeFetchLog(
+          buildFetchLogRows({
+            action: 'VERIFY',
+            programType: row.program_type,
+            sourceId: null,
+            canonicalUrl: row.canonical_url,
+            fetched,
+          }),
+        )
+      : null;
+
+    // Never fetched, so nothing is known about the page: the row is left as it was.
+    if (fetched.status === 'DEFERRED') {
+      summary.skipped += 1;
+      return;
+    }
 
     if (fetched.status === 'NOT_MODIFIED') {
       const hours = (now.getTime() - new Date(row.last_verified_at).getTime()) / 36e5;
       const freshness = freshnessScoreFromHours(hours);
-      await supabase
-        .from('canada_opportunity')
-        .update({ last_verified_at: now.toISOString(), freshness_score: freshness, status: 'ACTIVE', status_reason: null })
-        .eq('id', row.id);
+      const { liveness, transition } = checkLiveness(row, unchangedPageCheck(row));
+      // The page is as it was when last read, so its status stands; only a row that was
+      // blocked since then goes back to ACTIVE.
+      const unblocked = row.status === 'BLOCKED';
+      const saved = await save(row, {
+        ...liveness,
+        last_verified_at: now.toISOString(),
+        freshness_score: freshness,
+        status: transition?.status ?? (unblocked ? 'ACTIVE' : row.status),
+        status_reason: transition?.reason ?? (unblocked ? null : row.status_reason),
+      });
+      if (!saved) return;
       summary.notModified += 1;
-      continue;
+      verifiedIds.push(row.id);
+      return;
     }
 
     if (fetched.status === 'BLOCKED') {
-      await supabase
-        .from('canada_opportunity')
-        .update({ last_verified_at: now.toISOString(), status: 'BLOCKED', status_reason: fetched.blockedReason })
-        .eq('id', row.id);
-      summary.blocked += 1;
-      continue;
+      const saved = await save(row, {
+        last_verified_at: now.toISOString(),
+        status: 'BLOCKED',
+        status_reason: fetched.blockedReason,
+      });
+      if (saved) summary.blocked += 1;
+      return;
     }
 
+    // Failures leave last_verified_at alone, so the row is retried first next time.
     if (fetched.status !== 'OK' || !fetched.bodyText) {
-      summary.errors += 1;
-      continue;
+      const { liveness, transition } = checkLiveness(row, failedFetchCheck(fetched));
+      await save(row, { ...liveness, ...(transition ? { status: transition.status, status_reason: transition.reason } : {}) });
+      if (!transition) summary.errors += 1;
+      return;
     }
 
-    const built = buildOpportunityFromHtml({
+    // The page may now declare (or redirect to) a different canonical URL. If another
+    // row already owns that identity this one is a duplicate and is retired.
+    const canonicalUrl = resolveCanonicalUrl({
+      requestedUrl: row.canonical_url,
+      finalUrl: fetched.fetchedUrl,
+      html: fetched.bodyText,
+    });
+    const urlKey = canadaUrlKey(canonicalUrl) ?? row.url_key;
+    if (urlKey !== row.url_key && writers) {
+      const { data: owner } = await writers.supabase
+        .from('canada_opportunity')
+        .select('id')
+        .eq('program_type', row.program_type)
+        .eq('url_key', urlKey)
+        .eq('fragment_id', row.fragment_id)
+        .neq('id', row.id)
+        .maybeSingle();
+      if (owner) {
+        const saved = await save(row, {
+          last_verified_at: now.toISOString(),
+          status: 'EXPIRED',
+          status_reason: 'merged_into_canonical',
+        });
+        if (saved) summary.merged += 1;
+        return;
+      }
+    }
+    const identity = { canonical_url: canonicalUrl, url_key: urlKey };
+
+    const built = buildOpportunitiesFromHtml({
       programType: row.program_type,
-      canonicalUrl: row.canonical_url,
+      canonicalUrl,
       sourceUrl: row.source_url,
       html: fetched.bodyText,
       etag: fetched.etag,
       lastModified: fetched.lastModified,
-    });
+      pageKind: classifyPage(fetched.bodyText).kind,
+    }).find((b) => b.fragmentId === row.fragment_id);
+
+    // The posting block is gone from the page, or the page now splits into several
+    // postings that discover stores under their own fragments.
+    if (!built) {
+      const saved = await save(row, {
+        last_verified_at: now.toISOString(),
+        status: 'EXPIRED',
+        status_reason: row.fragment_id ? 'fragment_missing' : 'split_into_postings',
+      });
+      if (saved) summary.missing += 1;
+      return;
+    }
 
     const blocked = looksBlocked(fetched.bodyText);
     const loginWall = looksLikeLoginWall(fetched.bodyText);
@@ -107,52 +341,94 @@ export async function runCanadaVerify(args?: { programType?: CanadaProgramType;
       loginWall,
       applicationUrl: built.appUrl,
       deadlineDate: built.deadline.date,
-      deadlineConfidence: built.deadline.confidence,
+      deadlineScore: built.deadline.score,
     });
 
     const hours = (now.getTime() - new Date(row.last_verified_at).getTime()) / 36e5;
     const freshness = freshnessScoreFromHours(hours);
+    const { liveness, transition } = checkLiveness(
+      row,
+      built.closed ? { kind: 'terminal', signal: built.closed } : { kind: 'healthy' },
+    );
+    const status = transition?.status ?? gate.status;
+    const statusReason = transition?.reason ?? gate.reason;
 
     const nextHash = built.contentHash;
     const changed = nextHash !== row.content_hash;
 
     if (!changed) {
-      await supabase
-        .from('canada_opportunity')
-        .update({ last_verified_at: now.toISOString(), freshness_score: freshness, status: gate.status, status_reason: gate.reason })
-        .eq('id', row.id);
+      const saved = await save(row, {
+        ...identity,
+        ...liveness,
+        last_verified_at: now.toISOString(),
+        freshness_score: freshness,
+        status,
+        status_reason: statusReason,
+      });
+      if (!saved) return;
       summary.notModified += 1;
-      continue;
+      verifiedIds.push(row.id);
+      return;
     }
 
-    await supabase
-      .from('canada_opportunity')
-      .update({
-        title_clean: built.titleClean,
-        nutshell_15_words: built.nutshell,
-        funding_type: built.funding.type,
-        funding_confidence: built.funding.confidence,
-        funding_evidence: built.funding.evidence,
-        international_allowed: built.intl.allowed,
-        eligibility_confidence: built.intl.confidence,
-        eligibility_evidence: built.intl.evidence,
-        start_term: built.startTerm,
-        deadline_date: built.deadline.date,
-        deadline_confidence: built.deadline.confidence,
-        deadline_evidence: built.deadline.evidence,
-        application_url: built.appUrl ?? row.application_url,
-        content_hash: built.contentHash,
-        page_last_modified: built.pageLastModified,
-        etag: built.etag,
-        last_verified_at: now.toISOString(),
-        freshness_score: freshness,
-        status: gate.status,
-        status_reason: gate.reason,
-      })
-      .eq('id', row.id);
+    const update = {
+      ...identity,
+      title_clean: built.titleClean,
+      institution_name: built.institution,
+      province: built.province ?? row.province,
+      city: built.city ?? row.city,
+      language: built.language ?? row.language,
+      nutshell_15_words: built.nutshell,
+      funding_type: built.funding.type,
+      funding_confidence: built.funding.confidence,
+      funding_evidence: built.funding.evidence,
+      funding_excerpt: built.funding.excerpt,
+      international_allowed: built.intl.allowed,
+      eligibility_confidence: built.intl.confidence,
+      eligibility_evidence: built.intl.evidence,
+      eligibility_excerpt: built.intl.excerpt,
+      start_term: built.startTerm,
+      deadline_date: built.deadline.date,
+      deadline_confidence: built.deadline.confidence,
+      deadline_evidence: built.deadline.evidence,
+      deadline_excerpt: built.deadline.excerpt,
+      funding_score: built.funding.score,
+      eligibility_score: built.intl.score,
+      deadline_score: built.deadline.score,
+      confidence_factors: { funding: built.funding.factors, eligibility: built.intl.factors, deadline: built.deadline.factors },
+      application_url: built.appUrl ?? row.application_url,
+      content_hash: built.contentHash,
+      fingerprint: built.fingerprint,
+      fingerprint_bands: fingerprintBands(built.fingerprint),
+      page_last_modified: built.pageLastModified,
+      etag: built.etag,
+      last_verified_at: now.toISOString(),
+      freshness_score: freshness,
+      ...liveness,
+      status,
+      status_reason: statusReason,
+    };
+
+    const revision = buildRevision({
+      opportunityId: row.id,
+      before: row,
+      after: update,
+      fetchLogId,
+      contentHash: built.contentHash,
+    });
+    if (!(await save(row, update, revision))) return;
+    if (revision) summary.revisions += 1;
 
     summary.updated += 1;
-  }
+    verifiedIds.push(row.id);
+  };
+
+  const settled = await Promise.allSettled(rows.map(verifyOne));
+  const failed = settled.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+  if (failed) throw failed.reason;
+
+  // Re-cluster after content changes, and pick up mirrors released by an expired primary.
+  if (writers) await resolveNearDuplicates(verifiedIds);
 
   return summary;
 }
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { extractDeadline, normalizeDeadline, type DeadlineConfidence, type DeadlineKind } from './deadlineParser';
+
+const NOW = new Date('2026-01-15T12:00:00Z');
+
+// [text, date, kind, confidence]
+const EXTRACT_CASES: Array<[string, string | null, DeadlineKind, DeadlineConfidence]> = [
+  // Written dates, month first
+  ['Application deadline: March 1, 2026.', '2026-03-01', 'DATE', 'HIGH'],
+  ['Deadline: Feb. 15, 2026', '2026-02-15', 'DATE', 'HIGH'],
+  ['Applications are due September 30th, 2026.', '2026-09-30', 'DATE', 'HIGH'],
+  ['Apply by Dec 1 2026 to be considered.', '2026-12-01', 'DATE', 'HIGH'],
+  ['Closing date: Sept. 5, 2026', '2026-09-05', 'DATE', 'HIGH'],
+  ['Review of applications begins March 1, 2026.', '2026-03-01', 'DATE', 'HIGH'],
+  // Day first
+  ['Deadline: 15 March 2026', '2026-03-15', 'DATE', 'HIGH'],
+  ['Submit by the 3rd of April, 2026.', '2026-04-03', 'DATE', 'HIGH'],
+  // ISO and numeric
+  ['Deadline: 2026-04-30', '2026-04-30', 'DATE', 'HIGH'],
+  ['Due date 2026/05/07', '2026-05-07', 'DATE', 'HIGH'],
+  ['Deadline: 31/03/2026', '2026-03-31', 'DATE', 'HIGH'],
+  ['Deadline: 03/31/2026', '2026-03-31', 'DATE', 'HIGH'],
+  ['Deadline: 03/04/2026', '2026-03-04', 'DATE', 'LOW'],
+  // Ranges resolve to their last day
+  ['Applications close March 5–10, 2026.', '2026-03-10', 'RANGE_END', 'HIGH'],
+  ['Deadline: March 28 - April 3, 2026', '2026-04-03', 'RANGE_END', 'HIGH'],
+  ['Deadline: 5-10 June 2026', '2026-06-10', 'RANGE_END', 'HIGH'],
+  ['Deadline: 2026-02-01 to 2026-02-14', '2026-02-14', 'RANGE_END', 'HIGH'],
+  // Yearless dates take the next occurrence
+  ['Deadline: March 1', '2026-03-01', 'DATE', 'MEDIUM'],
+  ['Deadline: October 31', '2026-10-31', 'DATE', 'MEDIUM'],
+  ['Deadline: 1 November', '2026-11-01', 'DATE', 'MEDIUM'],
+  // French
+  ['Date limite : 15 mars 2026', '2026-03-15', 'DATE', 'HIGH'],
+  ['Date limite : le 1er février 2026', '2026-02-01', 'DATE', 'HIGH'],
+  ['Les candidatures sont acceptées jusqu’au 30 avril 2026.', '2026-04-30', 'DATE', 'HIGH'],
+  ["Soumettre au plus tard le 12 août 2026", '2026-08-12', 'DATE', 'HIGH'],
+  ['Date de clôture : 1er décembre 2026', '2026-12-01', 'DATE', 'HIGH'],
+  ['Date limite : 03/04/2026', '2026-04-03', 'DATE', 'LOW'],
+  ['Échéance : du 5 au 10 juin 2026', '2026-06-10', 'RANGE_END', 'HIGH'],
+  // Posted / start dates are not deadlines
+  ['Posted on 2026-01-10. Deadline: 2026-02-28.', '2026-02-28', 'DATE', 'HIGH'],
+  ['Published January 5, 2026', null, 'NONE', 'LOW'],
+  ['Start date: September 1, 2026. Apply by June 1, 2026.', '2026-06-01', 'DATE', 'HIGH'],
+  ['Deadline to apply is soon; the program starts May 1, 2026.', null, 'NONE', 'LOW'],
+  ['Date de début : 1er septembre 2026', null, 'NONE', 'LOW'],
+  ['Mis à jour le 2 janvier 2026', null, 'NONE', 'LOW'],
+  // Rolling
+  ['Applications are reviewed on a rolling basis.', null, 'ROLLING', 'MEDIUM'],
+  ['This position is open until filled.', null, 'ROLLING', 'MEDIUM'],
+  ['Applications will be accepted until the position is filled.', null, 'ROLLING', 'MEDIUM'],
+  ['Applications will be considered as they are received.', null, 'ROLLING', 'MEDIUM'],
+  ['Les candidatures sont évaluées en continu.', null, 'ROLLING', 'MEDIUM'],
+  ['Jusqu’à ce que le poste soit pourvu.', null, 'ROLLING', 'MEDIUM'],
+  // A labelled date beats the rolling wording
+  ['Open until filled; review of applications begins February 1, 2026.', '2026-02-01', 'DATE', 'HIGH'],
+  // Unlabelled dates
+  ['The lab was founded on March 3, 2019.', null, 'NONE', 'LOW'],
+  ['Seminars on March 3, 2026 and April 7, 2026.', null, 'NONE', 'LOW'],
+  ['Seminar on March 3.', null, 'NONE', 'LOW'],
+  // No dates at all
+  ['', null, 'NONE', 'LOW'],
+  ['Funding is available for four years.', null, 'NONE', 'LOW'],
+  // Invalid dates are ignored
+  ['Deadline: February 30, 2026', null, 'NONE', 'LOW'],
+];
+
+describe('extractDeadline', () => {
+  it.each(EXTRACT_CASES)('%j', (text, date, kind, confidence) => {
+    const parsed = extractDeadline(text, { now: NOW });
+    expect({ date: parsed.date, kind: parsed.kind, confidence: parsed.confidence }).toEqual({ date, kind, confidence });
+  });
+
+  it('points the evidence at the keyword and the date', () => {
+    const text = 'Fully funded. Review of applications begins March 1, 2026. Start date: September 2026.';
+    const parsed = extractDeadline(text, { now: NOW });
+    expect(parsed.evidence).toBe('Review of applications begins March 1, 2026');
+    expect(text.slice(parsed.start ?? 0, parsed.end ?? 0)).toBe('Review of applications begins March 1, 2026');
+    expect(parsed.precision).toBe('EXACT');
+  });
+
+  it('honours an explicit numeric order', () => {
+    expect(extractDeadline('Deadline: 03/04/2026', { now: NOW, numericOrder: 'DMY' }).date).toBe('2026-04-03');
+  });
+});
+
+// [raw, normalized]
+const NORMALIZE_CASES: Array<[string | null, string | null]> = [
+  [null, null],
+  ['', null],
+  ['2026-03-01', '2026-03-01'],
+  ['March 1, 2026', '2026-03-01'],
+  ['1 mars 2026', '2026-03-01'],
+  ['Rolling', null],
+  ['2026-03-01T23:59:00Z', '2026-03-01'],
+  ['2026-03-01T23:59:00-05:00', '2026-03-01'],
+  ['Fall 2026', null],
+  ['TBA 2027', null],
+  ['12', null],
+  ['2026', null],
+  ['2026-02-30T00:00:00Z', null],
+];
+
+describe('normalizeDeadline', () => {
+  it.each(NORMALIZE_CASES)('%j', (raw, expected) => {
+    expect(normalizeDeadline(raw, { now: NOW })).toBe(expected);
+  });
+});
@@ -0,0 +1,363 @@
+// Shared deadline parsing for the PhD ingestion and Canada pipelines.
+// Understands English and French month names, ISO / numeric / written dates,
+// ranges ("March 5–10, 2026" → March 10), and rolling deadlines, and only
+// trusts dates that sit near a deadline keyword.
+
+export type DeadlineKind = 'DATE' | 'RANGE_END' | 'ROLLING' | 'NONE';
+export type DeadlineConfidence = 'HIGH' | 'MEDIUM' | 'LOW';
+
+export type DeadlineParse = {
+  date: string | null;
+  kind: DeadlineKind;
+  confidence: DeadlineConfidence;
+  evidence: string | null;
+  // Character offsets of the evidence within the input text.
+  start: number | null;
+  end: number | null;
+  // Characters between the deadline keyword and the date; null for rolling deadlines.
+  distance: number | null;
+  precision: DeadlinePrecision | null;
+};
+
+// EXACT: full date with a year; YEARLESS: year inferred; AMBIGUOUS: day/month order guessed.
+export type DeadlinePrecision = 'EXACT' | 'YEARLESS' | 'AMBIGUOUS';
+
+export type DeadlineParseOptions = {
+  // Reference point for dates written without a year. Defaults to now.
+  now?: Date;
+  // Order for ambiguous numeric dates such as 03/04/2026. Defaults to DMY for
+  // French text and MDY otherwise.
+  numericOrder?: 'DMY' | 'MDY';
+};
+
+type DateCandidate = {
+  start: number;
+  end: number;
+  date: string;
+  kind: 'DATE' | 'RANGE_END';
+  yearExplicit: boolean;
+  ambiguous: boolean;
+};
+
+type Span = { start: number; end: number };
+
+const MONTHS: Array<[string, number]> = [
+  ['january', 1],
+  ['jan', 1],
+  ['janvier', 1],
+  ['janv', 1],
+  ['february', 2],
+  ['feb', 2],
+  ['février', 2],
+  ['fevrier', 2],
+  ['févr', 2],
+  ['fevr', 2],
+  ['fév', 2],
+  ['march', 3],
+  ['mar', 3],
+  ['mars', 3],
+  ['april', 4],
+  ['apr', 4],
+  ['avril', 4],
+  ['avr', 4],
+  ['may', 5],
+  ['mai', 5],
+  ['june', 6],
+  ['jun', 6],
+  ['juin', 6],
+  ['july', 7],
+  ['jul', 7],
+  ['juillet', 7],
+  ['juil', 7],
+  ['august', 8],
+  ['aug', 8],
+  ['août', 8],
+  ['aout', 8],
+  ['september', 9],
+  ['sept', 9],
+  ['sep', 9],
+  ['septembre', 9],
+  ['october', 10],
+  ['oct', 10],
+  ['octobre', 10],
+  ['november', 11],
+  ['nov', 11],
+  ['novembre', 11],
+  ['december', 12],
+  ['dec', 12],
+  ['décembre', 12],
+  ['decembre', 12],
+  ['déc', 12],
+];
+
+const MONTH_BY_NAME = new Map(MONTHS);
+const MONTH = `(${MONTHS.map(([name]) => name)
+  .sort((a, b) => b.length - a.length)
+  .join('|')})\\.?`;
+const DAY = '(\\d{1,2})(?:st|nd|rd|th|er|re)?';
+const YEAR = '(\\d{4})';
+const DASH = '\\s*(?:-|–|—|to|through|au|à)\\s*';
+// \b is ASCII-only, so accented month names need an explicit letter lookahead.
+const END = '(?![\\p{L}\\d])';
+
+const DEADLINE_KEYWORDS = [
+  'application deadline',
+  'applications deadline',
+  'deadline to apply',
+  'deadline',
+  'closing date',
+  'closes on',
+  'apply by',
+  'apply before',
+  'applications close',
+  'applications are due',
+  'applications due',
+  'due date',
+  'due by',
+  'submit by',
+  'no later than',
+  'review of applications begins',
+  'date limite',
+  'date de clôture',
+  'échéance',
+  'au plus tard le',
+  'avant le',
+  'jusqu’au',
+  "jusqu'au",
+];
+
+const NEGATIVE_KEYWORDS = [
+  'posted',
+  'published',
+  'updated',
+  'last modified',
+  'start date',
+  'starting',
+  'starts',
+  'begins',
+  'commencing',
+  'publié',
+  'mis à jour',
+  'date de début',
+  'début',
+];
+
+const ROLLING_PATTERNS = [
+  /\brolling (?:basis|admissions?|deadline)\b/i,
+  /\buntil (?:the )?(?:position|positions|post|role) (?:is |are |has been |have been )?filled\b/i,
+  /\bopen until filled\b/i,
+  /\buntil filled\b/i,
+  /\bapplications (?:will be )?(?:accepted|reviewed|considered) (?:on an ongoing basis|continuously|as they are received)\b/i,
+  /jusqu[’']à ce que (?:le|les) postes? (?:soit|soient) (?:pourvus?|comblés?)/i,
+  /\ben continu\b/i,
+];
+
+const KEYWORD_WINDOW = 160;
+const NEGATIVE_WINDOW = 40;
+const ISO_TIMESTAMP = /^(\d{4})-(\d{2})-(\d{2})(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+function pad(n: number) {
+  return String(n).padStart(2, '0');
+}
+
+function toIso(y: number, m: number, d: number) {
+  if (m < 1 || m > 12 || d < 1 || d > 31) return null;
+  const dt = new Date(Date.UTC(y, m - 1, d));
+  if (dt.getUTCMonth() !== m - 1 || dt.getUTCDate() !== d) return null;
+  return `${y}-${pad(m)}-${pad(d)}`;
+}
+
+function inferYear(m: number, d: number, now: Date) {
+  // A yearless date more than two months in the past most likely refers to next year.
+  const y = now.getUTCFullYear();
+  const candidate = Date.UTC(y, m - 1, d);
+  return candidate < now.getTime() - 60 * 24 * 3600 * 1000 ? y + 1 : y;
+}
+
+function monthOf(name: string) {
+  return MONTH_BY_NAME.get(name.toLowerCase().replace(/\.$/, '')) ?? null;
+}
+
+function looksFrench(text: string) {
+  return /\b(?:date limite|candidat|bourse|janvier|février|avril|juillet|août|décembre|le \d{1,2} \p{L}+)\b/iu.test(text);
+}
+
+function findDateCandidates(text: string, opts: Required<DeadlineParseOptions>): DateCandidate[] {
+  const out: DateCandidate[] = [];
+  const push = (
+    start: number,
+    end: number,
+    y: number | null,
+    m: number | null,
+    d: number,
+    kind: DateCandidate['kind'],
+    ambiguous = false,
+  ) => {
+    if (m === null) return;
+    const year = y ?? inferYear(m, d, opts.now);
+    const date = toIso(year, m, d);
+    if (!date) return;
+    out.push({ start, end, date, kind, yearExplicit: y !== null, ambiguous });
+  };
+
+  const scan = (pattern: string, handle: (m: RegExpExecArray) => void) => {
+    const re = new RegExp(pattern, 'giu');
+    for (let m = re.exec(text); m; m = re.exec(text)) handle(m);
+  };
+
+  // Ranges first so the longer match wins when overlaps are resolved.
+  scan(`\\b${MONTH}\\s+${DAY}(?:,?\\s+${YEAR})?${DASH}${MONTH}\\s+${DAY}(?:,?\\s+${YEAR})?${END}`, (m) =>
+    push(m.index, m.index + m[0].length, m[6] ? Number(m[6]) : m[3] ? Number(m[3]) : null, monthOf(m[4]), Number(m[5]), 'RANGE_END'),
+  );
+  scan(`\\b${MONTH}\\s+${DAY}${DASH}${DAY},?(?:\\s+${YEAR})?${END}`, (m) =>
+    push(m.index, m.index + m[0].length, m[4] ? Number(m[4]) : null, monthOf(m[1]), Number(m[3]), 'RANGE_END'),
+  );
+  scan(`\\b${DAY}${DASH}${DAY}\\s+(?:of\\s+)?${MONTH},?(?:\\s+${YEAR})?${END}`, (m) =>
+    push(m.index, m.index + m[0].length, m[4] ? Number(m[4]) : null, monthOf(m[3]), Number(m[2]), 'RANGE_END'),
+  );
+  scan(`\\b${YEAR}-(\\d{2})-(\\d{2})${DASH}${YEAR}-(\\d{2})-(\\d{2})\\b`, (m) =>
+    push(m.index, m.index + m[0].length, Number(m[4]), Number(m[5]), Number(m[6]), 'RANGE_END'),
+  );
+
+  scan(`\\b${YEAR}[-/.](\\d{1,2})[-/.](\\d{1,2})\\b`, (m) =>
+    push(m.index, m.index + m[0].length, Number(m[1]), Number(m[2]), Number(m[3]), 'DATE'),
+  );
+  scan(`\\b${MONTH}\\s+${DAY}(?:,?\\s+${YEAR})?${END}`, (m) =>
+    push(m.index, m.index + m[0].length, m[3] ? Number(m[3]) : null, monthOf(m[1]), Number(m[2]), 'DATE'),
+  );
+  scan(`\\b${DAY}\\s+(?:of\\s+)?${MONTH},?(?:\\s+${YEAR})?${END}`, (m) =>
+    push(m.index, m.index + m[0].length, m[3] ? Number(m[3]) : null, monthOf(m[2]), Number(m[1]), 'DATE'),
+  );
+  scan(`\\b(\\d{1,2})[/.](\\d{1,2})[/.]${YEAR}\\b`, (m) => {
+    const a = Number(m[1]);
+    const b = Number(m[2]);
+    const y = Number(m[3]);
+    if (a > 12) return push(m.index, m.index + m[0].length, y, b, a, 'DATE');
+    if (b > 12) return push(m.index, m.index + m[0].length, y, a, b, 'DATE');
+    const [month, day] = opts.numericOrder === 'DMY' ? [b, a] : [a, b];
+    push(m.index, m.index + m[0].length, y, month, day, 'DATE', a !== b);
+  });
+
+  // Drop candidates contained in an earlier, longer one.
+  out.sort((x, y) => x.start - y.start || y.end - y.start - (x.end - x.start));
+  const kept: DateCandidate[] = [];
+  for (const c of out) {
+    const last = kept[kept.length - 1];
+    if (last && c.start < last.end) continue;
+    kept.push(c);
+  }
+  return kept;
+}
+
+function precisionOf(candidate: DateCandidate): DeadlinePrecision {
+  if (candidate.ambiguous) return 'AMBIGUOUS';
+  return candidate.yearExplicit ? 'EXACT' : 'YEARLESS';
+}
+
+// Matches lying inside `skip` (e.g. "begins" within "review of applications begins") do not count.
+function lastKeywordBefore(lower: string, keywords: string[], from: number, to: number, skip: Span | null = null) {
+  let best: Span | null = null;
+  for (const k of keywords) {
+    let idx = lower.lastIndexOf(k, to - k.length);
+    while (skip && idx >= 0 && idx >= skip.start && idx + k.length <= skip.end) {
+      idx = idx > 0 ? lower.lastIndexOf(k, idx - 1) : -1;
+    }
+    if (idx < from || idx < 0) continue;
+    if (!best || idx > best.start) best = { start: idx, end: idx + k.length };
+  }
+  return best;
+}
+
+function snippet(text: string, start: number, end: number) {
+  const words = text.slice(start, end).replace(/\s+/g, ' ').trim().split(' ');
+  return words.slice(0, 20).join(' ');
+}
+
+export function normalizeDeadline(raw: string | null | undefined, options: DeadlineParseOptions = {}) {
+  if (!raw) return null;
+  const s = raw.toString().trim();
+  if (!s) return null;
+
+  const opts = {
+    now: options.now ?? new Date(),
+    numericOrder: options.numericOrder ?? (looksFrench(s) ? 'DMY' : 'MDY'),
+  } as Required<DeadlineParseOptions>;
+  const candidates = findDateCandidates(s, opts);
+  if (candidates.length > 0) return candidates[0].date;
+
+  // Only a whole ISO timestamp is taken as is; "Fall 2026" or "TBA" is no date.
+  const iso = ISO_TIMESTAMP.exec(s);
+  return iso ? toIso(Number(iso[1]), Number(iso[2]), Number(iso[3])) : null;
+}
+
+export function extractDeadline(text: string, options: DeadlineParseOptions = {}): DeadlineParse {
+  const none: DeadlineParse = {
+    date: null,
+    kind: 'NONE',
+    confidence: 'LOW',
+    evidence: null,
+    start: null,
+    end: null,
+    distance: null,
+    precision: null,
+  };
+  const source = text.replace(/\u00a0/g, ' ');
+  if (!source.trim()) return none;
+
+  const opts = {
+    now: options.now ?? new Date(),
+    numericOrder: options.numericOrder ?? (looksFrench(source) ? 'DMY' : 'MDY'),
+  } as Required<DeadlineParseOptions>;
+  const lower = source.toLowerCase();
+  const candidates = findDateCandidates(source, opts);
+
+  let best: { candidate: DateCandidate; keyword: Span; distance: number } | null = null;
+
+  for (const candidate of candidates) {
+    const keyword = lastKeywordBefore(lower, DEADLINE_KEYWORDS, candidate.start - KEYWORD_WINDOW, candidate.start);
+    const negative = lastKeywordBefore(lower, NEGATIVE_KEYWORDS, candidate.start - NEGATIVE_WINDOW, candidate.start, keyword);
+
+    // "Posted on" / "start date" labels closer to the date than any deadline keyword disqualify it.
+    if (negative && (!keyword || negative.start > keyword.start)) continue;
+
+    // A date with no deadline keyword near it (a founding year, a seminar) is not one.
+    if (!keyword) continue;
+
+    const distance = candidate.start - keyword.end;
+    if (!best || distance < best.distance) best = { candidate, keyword, distance };
+  }
+
+  if (best) {
+    const { candidate, keyword, distance } = best;
+    const confidence: DeadlineConfidence =
+      distance <= 40 && candidate.yearExplicit && !candidate.ambiguous ? 'HIGH' : candidate.ambiguous ? 'LOW' : 'MEDIUM';
+    return {
+      date: candidate.date,
+      kind: candidate.kind,
+      confidence,
+      evidence: snippet(source, keyword.start, candidate.end),
+      start: keyword.start,
+      end: candidate.end,
+      distance,
+      precision: precisionOf(candidate),
+    };
+  }
+
+  for (const pattern of ROLLING_PATTERNS) {
+    const m = pattern.exec(source);
+    if (m) {
+      return {
+        date: null,
+        kind: 'ROLLING',
+        confidence: 'MEDIUM',
+        evidence: snippet(source, m.index, m.index + m[0].length),
+        start: m.index,
+        end: m.index + m[0].length,
+        distance: null,
+        precision: null,
+      };
+    }
+  }
+
+  return none;
+}
@@ -4,6 +4,7 @@ import Parser from 'rss-parser';
 import { GoogleGenerativeAI, SchemaType } from '@google/generative-ai';
 import * as cheerio from 'cheerio';
 import { SEARCH_CONFIG } from '../searchConfig';
+import { extractDeadline, normalizeDeadline } from './deadlineParser';
 
 const geminiApiKey = process.env.GEMINI_API_KEY as string;
 
@@ -203,65 +204,6 @@ function toIsoDateString(date: Date) {
   return `${y}-${m}-${d}`;
 }
 
-function normalizeDeadline(raw: string | null | undefined) {
-  if (!raw) return null;
-  const s = raw.toString().trim();
-  if (!s) return null;
-
-  const iso = s.match(/\b(\d{4}-\d{2}-\d{2})\b/)?.[1];
-  if (iso) return iso;
-
-  const parsed = new Date(s);
-  if (!Number.isFinite(parsed.getTime())) return null;
-  return toIsoDateString(parsed);
-}
-
-function extractDeadlineFromText(text: string) {
-  const iso = text.match(/\b(\d{4}-\d{2}-\d{2})\b/)?.[1];
-  if (iso) return iso;
-
-  const monthMap: Record<string, number> = {
-    january: 0,
-    february: 1,
-    march: 2,
-    april: 3,
-    may: 4,
-    june: 5,
-    july: 6,
-    august: 7,
-    september: 8,
-    october: 9,
-    november: 10,
-    december: 11,
-  };
-
-  const t = text.toLowerCase();
-  const ctx = t.match(
-    /(deadline|closing date|apply by|applications close|application deadline)[^\n]{0,120}/,
-  )?.[0];
-  const scope = ctx ?? t;
-
-  const m1 = scope.match(/\b(january|february|march|april|may|june|july|august|september|october|november|december)\s+(\d{1,2})(?:st|nd|rd|th)?[,]?\s+(\d{4})\b/);
-  if (m1) {
-    const month = monthMap[m1[1]];
-    const day = Number(m1[2]);
-    const year = Number(m1[3]);
-    const d = new Date(Date.UTC(year, month, day));
-    if (Number.isFinite(d.getTime())) return toIsoDateString(d);
-  }
-
-  const m2 = scope.match(/\b(\d{1,2})(?:st|nd|rd|th)?\s+(january|february|march|april|may|june|july|august|september|october|november|december)[,]?\s+(\d{4})\b/);
-  if (m2) {
-    const day = Number(m2[1]);
-    const month = monthMap[m2[2]];
-    const year = Number(m2[3]);
-    const d = new Date(Date.UTC(year, month, day));
-    if (Number.isFinite(d.getTime())) return toIsoDateString(d);
-  }
-
-  return null;
-}
-
 type GoogleCseResult = { title: string; link: string; snippet: string };
 
 async function searchWithGoogleCse(query: string): Promise<GoogleCseResult[]> {
@@ -796,8 +738,8 @@ ${contentMarkdown}`;
       const today = toIsoDateString(new Date());
       const deadlineCandidate =
         normalizeDeadline(enriched.deadline) ??
-        extractDeadlineFromText(contentMarkdown) ??
-        extractDeadlineFromText(item.description);
+        extractDeadline(contentMarkdown).date ??
+        extractDeadline(item.description).date;
 
       if (deadlineCandidate && deadlineCandidate < today) {
         skipped.push({ link: item.link, reason: 'expired_deadline' });
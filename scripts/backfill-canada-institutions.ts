@@ -0,0 +1,20 @@
+import 'dotenv/config';
+import { runCanadaInstitutionBackfill } from '../lib/services/canada/backfill';
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  console.log(`[canada-backfill] starting${dryRun ? ' (dry run)' : ''}`);
+
+  const summary = await runCanadaInstitutionBackfill({ dryRun });
+
+  console.log(`[canada-backfill] scanned ${summary.scanned}, matched ${summary.matched}, updated ${summary.updated}`);
+  if (summary.unmatchedHosts.length > 0) {
+    console.log('[canada-backfill] hosts missing from the institution registry:');
+    for (const host of summary.unmatchedHosts) console.log('-', host);
+  }
+}
+
+main().catch((e) => {
+  console.error('[canada-backfill] failed', e instanceof Error ? e.message : e);
+  process.exitCode = 1;
+});
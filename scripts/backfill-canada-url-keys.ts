@@ -0,0 +1,18 @@
+import 'dotenv/config';
+import { runCanadaUrlKeyBackfill } from '../lib/services/canada/backfill';
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  console.log(`[canada-url-keys] starting${dryRun ? ' (dry run)' : ''}`);
+
+  const summary = await runCanadaUrlKeyBackfill({ dryRun });
+
+  console.log(
+    `[canada-url-keys] scanned ${summary.scanned}, updated ${summary.updated}, merged ${summary.merged}, invalid URLs ${summary.invalid}`,
+  );
+}
+
+main().catch((e) => {
+  console.error('[canada-url-keys] failed', e instanceof Error ? e.message : e);
+  process.exitCode = 1;
+});
@@ -0,0 +1,116 @@
+import 'dotenv/config';
+import fs from 'fs';
+import path from 'path';
+import { testCrawlSource } from '../lib/services/canada/discover';
+import { loadVerifyRows, testVerifyRows } from '../lib/services/canada/verify';
+import { canadaSupabase, type CanadaOpportunityRow } from '../lib/services/canada/db';
+import { listSources } from '../lib/services/canada/sources';
+import { createSearchProvider, FixtureSearchProvider, type CanadaSearchResult } from '../lib/services/canada/search';
+import type { HttpArchiveMode } from '../lib/services/canada/archive';
+import type { CanadaSourceRow } from '../lib/services/canada/types';
+
+// Freezes the active sources, the rows verify would check next and all their pages
+// into an HTTP archive, then replays discovery and verification from it offline.
+// Recording reads the database; replays need none, write nothing and print a stable
+// JSON snapshot (fetches, extracted rows, gate decisions, verify updates) to diff
+// between extractor versions:
+//
+//   npm run canada:archive -- record [--dir DIR] [--verify N]   (default 25 rows)
+//   npm run canada:archive -- replay [--dir DIR] [--out FILE]   (default DIR/snapshot.json)
+//
+// CANADA_HTTP_ARCHIVE=record|replay (and CANADA_HTTP_ARCHIVE_DIR) also serve the
+// discover/verify crons from an archive, but those still read and write the database.
+
+function flag(name: string) {
+  const i = process.argv.indexOf(name);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+// Volatile per-run values, dropped so two replays of one archive compare equal.
+function stableSnapshot(
+  results: Array<{ source: string; result: Awaited<ReturnType<typeof testCrawlSource>> }>,
+  verified: Awaited<ReturnType<typeof testVerifyRows>>,
+) {
+  return {
+    discover: results.map(({ source, result }) => ({
+      source,
+      summary: result.summary,
+      fetches: result.fetches.map((f) => ({ ...f, elapsed_ms: null })),
+      records: result.records.map(({ record, decision }) => ({ record: { ...record, last_verified_at: null }, decision })),
+      proposals: result.proposals,
+    })),
+    verify: {
+      summary: verified.summary,
+      updates: verified.updates.map(({ id, update, revision }) => ({
+        id,
+        update: { ...update, last_verified_at: null, freshness_score: null },
+        revision,
+      })),
+    },
+  };
+}
+
+async function main() {
+  const mode = process.argv[2] as HttpArchiveMode;
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new Error('usage: canada-http-archive.ts record [--dir DIR] [--verify N] | replay [--dir DIR] [--out FILE]');
+  }
+  const dir = path.resolve(flag('--dir') ?? '.canada-http-archive');
+  const sourcesFile = path.join(dir, 'sources.json');
+  const searchFile = path.join(dir, 'search-results.json');
+  const verifyFile = path.join(dir, 'verify-rows.json');
+
+  let sources: CanadaSourceRow[];
+  let verifyRows: CanadaOpportunityRow[];
+  const searched: Record<string, CanadaSearchResult[]> = {};
+  const live = createSearchProvider();
+  const search =
+    mode === 'replay'
+      ? fs.existsSync(searchFile)
+        ? FixtureSearchProvider.fromFile(searchFile)
+        : new FixtureSearchProvider({})
+      : {
+          name: `recording:${live.name}`,
+          async search(query: string, options: { limit: number }) {
+            const results = await live.search(query, options);
+            searched[query] = results;
+            return results;
+          },
+        };
+
+  if (mode === 'record') {
+    sources = await listSources({ active: true });
+    verifyRows = await loadVerifyRows(canadaSupabase(), { limit: Number(flag('--verify') ?? 25), mode: 'OLDEST' });
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(sourcesFile, `${JSON.stringify(sources, null, 2)}\n`);
+    fs.writeFileSync(verifyFile, `${JSON.stringify(verifyRows, null, 2)}\n`);
+  } else {
+    sources = JSON.parse(fs.readFileSync(sourcesFile, 'utf8')) as CanadaSourceRow[];
+    verifyRows = fs.existsSync(verifyFile) ? (JSON.parse(fs.readFileSync(verifyFile, 'utf8')) as CanadaOpportunityRow[]) : [];
+  }
+  console.log(`[canada-archive] ${mode} ${sources.length} sources and ${verifyRows.length} verify rows in ${dir}`);
+
+  const results = [];
+  for (const source of sources) {
+    const result = await testCrawlSource(source, { archive: { mode, dir }, searchProvider: search });
+    console.log(`[canada-archive] ${source.base_url}: ${result.fetches.length} fetches, ${result.records.length} records`);
+    results.push({ source: source.id, result });
+  }
+
+  const verified = await testVerifyRows(verifyRows, { archive: { mode, dir } });
+  console.log(`[canada-archive] verify: ${verified.summary.checked} checked, ${verified.updates.length} updates`);
+
+  if (mode === 'record') {
+    fs.writeFileSync(searchFile, `${JSON.stringify(searched, null, 2)}\n`);
+    return;
+  }
+
+  const out = path.resolve(flag('--out') ?? path.join(dir, 'snapshot.json'));
+  fs.writeFileSync(out, `${JSON.stringify(stableSnapshot(results, verified), null, 2)}\n`);
+  console.log(`[canada-archive] snapshot written to ${out}`);
+}
+
+main().catch((e) => {
+  console.error('[canada-archive] failed', e instanceof Error ? e.message : e);
+  process.exitCode = 1;
+});
@@ -0,0 +1,16 @@
+import 'dotenv/config';
+import { runCanadaConfidenceRescore } from '../lib/services/canada/backfill';
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  console.log(`[canada-rescore] starting${dryRun ? ' (dry run)' : ''}`);
+
+  const summary = await runCanadaConfidenceRescore({ dryRun });
+
+  console.log(`[canada-rescore] scanned ${summary.scanned}, updated ${summary.updated}`);
+}
+
+main().catch((e) => {
+  console.error('[canada-rescore] failed', e instanceof Error ? e.message : e);
+  process.exitCode = 1;
+});
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '../../../../lib/supabaseServer';
+
+function adminEmails() {
+  return (process.env.CANADA_ADMIN_EMAILS ?? '')
+    .split(',')
+    .map((e) => e.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+// Admin routes take the signed-in user's Supabase access token as a Bearer token and
+// allow only emails listed in CANADA_ADMIN_EMAILS. Unlike the cron routes this fails
+// closed: with no admins configured every request is refused.
+// Returns an error response, or null when the caller is an admin.
+export async function requireCanadaAdmin(request: Request) {
+  const admins = adminEmails();
+  if (admins.length === 0) {
+    return NextResponse.json({ error: 'Admin API is not configured' }, { status: 503 });
+  }
+
+  const token = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!token) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const { data, error } = await createServerSupabaseClient().auth.getUser(token);
+  if (error || !data.user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const email = data.user.email?.toLowerCase();
+  if (!email || !admins.includes(email)) return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  return null;
+}
@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import {
+  CanadaSourceConflictError,
+  checkSourceRobots,
+  deactivateSource,
+  getSource,
+  mergeSourcePatch,
+  updateSource,
+  validateSource,
+} from '../../../../../../../lib/services/canada/sources';
+import { requireCanadaAdmin } from '../../auth';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function failed(action: string, e: unknown) {
+  if (e instanceof CanadaSourceConflictError) return NextResponse.json({ error: e.message }, { status: 409 });
+  const message = e instanceof Error ? e.message : 'Unknown error';
+  console.error(`[canada-admin-sources] ${action} failed`, e);
+  return NextResponse.json({ error: message }, { status: 500 });
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const denied = await requireCanadaAdmin(request);
+  if (denied) return denied;
+
+  const { id } = await params;
+  try {
+    const data = await getSource(id);
+    if (!data) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (e) {
+    return failed('get', e);
+  }
+}
+
+// Partial update. Approving a PENDING candidate is `{ "review_status": "APPROVED",
+// "active": true }`; rejecting is `{ "review_status": "REJECTED", "active": false }`.
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const denied = await requireCanadaAdmin(request);
+  if (denied) return denied;
+
+  const { id } = await params;
+  const patch = await request.json().catch(() => null);
+
+  try {
+    const existing = await getSource(id);
+    if (!existing) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+    const validation = validateSource(mergeSourcePatch(existing, patch));
+    if (!validation.ok) {
+      return NextResponse.json({ error: 'Invalid source', details: validation.errors }, { status: 400 });
+    }
+
+    const value = validation.value;
+    const robotsChanged =
+      value.base_url !== existing.base_url ||
+      value.respect_robots !== existing.respect_robots ||
+      value.min_delay_ms !== existing.min_delay_ms;
+    const robotsErrors = value.active && robotsChanged ? await checkSourceRobots(value) : [];
+    if (robotsErrors.length > 0) {
+      return NextResponse.json({ error: 'Invalid source', details: robotsErrors }, { status: 400 });
+    }
+
+    const data = await updateSource(id, value);
+    if (!data) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (e) {
+    return failed('update', e);
+  }
+}
+
+// Deactivates rather than deletes; see deactivateSource.
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const denied = await requireCanadaAdmin(request);
+  if (denied) return denied;
+
+  const { id } = await params;
+  try {
+    const data = await deactivateSource(id);
+    if (!data) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (e) {
+    return failed('deactivate', e);
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import {
+  CanadaSourceConflictError,
+  checkSourceRobots,
+  createSource,
+  listSources,
+  validateSource,
+  withSourceDefaults,
+} from '../../../../../../lib/services/canada/sources';
+import type { CanadaSourceReviewStatus, CanadaSourceStrategy } from '../../../../../../lib/services/canada/types';
+import { CANADA_PROGRAM_TYPES, type CanadaProgramType } from '../../../../../lib/canada/constants';
+import { requireCanadaAdmin } from '../auth';
+
+function oneOf<T extends string>(value: string | null, allowed: readonly T[]): T | undefined {
+  return value && (allowed as readonly string[]).includes(value) ? (value as T) : undefined;
+}
+
+export async function GET(request: Request) {
+  const denied = await requireCanadaAdmin(request);
+  if (denied) return denied;
+
+  const url = new URL(request.url);
+  const rawActive = url.searchParams.get('active');
+
+  try {
+    const data = await listSources({
+      programType: oneOf<CanadaProgramType>(url.searchParams.get('program_type'), CANADA_PROGRAM_TYPES),
+      strategy: oneOf<CanadaSourceStrategy>(url.searchParams.get('strategy'), ['GOOGLE_SEED', 'CURATED', 'OPPORTUNISTIC']),
+      reviewStatus: oneOf<CanadaSourceReviewStatus>(url.searchParams.get('review_status'), ['PENDING', 'APPROVED', 'REJECTED']),
+      active: rawActive === 'true' ? true : rawActive === 'false' ? false : undefined,
+    });
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : 'Unknown error';
+    console.error('[canada-admin-sources] list failed', e);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const denied = await requireCanadaAdmin(request);
+  if (denied) return denied;
+
+  const body = await request.json().catch(() => null);
+  const validation = validateSource(withSourceDefaults(body));
+  if (!validation.ok) {
+    return NextResponse.json({ error: 'Invalid source', details: validation.errors }, { status: 400 });
+  }
+
+  try {
+    const robotsErrors = await checkSourceRobots(validation.value);
+    if (robotsErrors.length > 0) {
+      return NextResponse.json({ error: 'Invalid source', details: robotsErrors }, { status: 400 });
+    }
+
+    const data = await createSource(validation.value);
+    return NextResponse.json({ data }, { status: 201 });
+  } catch (e) {
+    if (e instanceof CanadaSourceConflictError) return NextResponse.json({ error: e.message }, { status: 409 });
+    const message = e instanceof Error ? e.message : 'Unknown error';
+    console.error('[canada-admin-sources] create failed', e);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { testCrawlSource } from '../../../../../../../lib/services/canada/discover';
+import { draftSourceRow, getSource, validateSource, withSourceDefaults } from '../../../../../../../lib/services/canada/sources';
+import type { CanadaDiscoverMode, CanadaSourceRow } from '../../../../../../../lib/services/canada/types';
+import { requireCanadaAdmin } from '../../auth';
+
+// Page budget for a test crawl, whatever the source allows per run.
+const MAX_TEST_CRAWL_REQUESTS = 10;
+
+// Dry-run discovery for one source: `{ "id": "..." }` for a saved source, or a source
+// body (as for POST /sources) to try one before saving. Nothing is written.
+// Optional `mode` (CRAWL/SITEMAP) and `max_requests` (at most 10).
+export async function POST(request: Request) {
+  const denied = await requireCanadaAdmin(request);
+  if (denied) return denied;
+
+  const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json({ error: 'body must be a JSON object' }, { status: 400 });
+  }
+  const { id, mode: rawMode, max_requests: rawMaxRequests, ...draft } = body;
+  const mode: CanadaDiscoverMode = String(rawMode ?? '').toUpperCase() === 'SITEMAP' ? 'SITEMAP' : 'CRAWL';
+  const maxRequests =
+    typeof rawMaxRequests === 'number' && rawMaxRequests >= 1
+      ? Math.min(Math.floor(rawMaxRequests), MAX_TEST_CRAWL_REQUESTS)
+      : MAX_TEST_CRAWL_REQUESTS;
+
+  try {
+    let source: CanadaSourceRow;
+    if (typeof id === 'string') {
+      const saved = await getSource(id);
+      if (!saved) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+      source = saved;
+    } else {
+      const validation = validateSource(withSourceDefaults(draft));
+      if (!validation.ok) {
+        return NextResponse.json({ error: 'Invalid source', details: validation.errors }, { status: 400 });
+      }
+      source = draftSourceRow(validation.value);
+    }
+
+    const result = await testCrawlSource(source, { mode, maxRequests });
+    return NextResponse.json({ ok: true, result }, { status: 200 });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : 'Unknown error';
+    console.error('[canada-admin-sources] test crawl failed', e);
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
@@ -1,7 +1,12 @@
 import { NextResponse } from 'next/server';
 import type { Database } from '../../../lib/database.types';
 import { createServerSupabaseClient } from '../../../lib/supabaseServer';
-import type { CanadaOpportunityPublic } from '../../../lib/canada/types';
+import type {
+  CanadaAlsoPostedAt,
+  CanadaEvidenceExcerpt,
+  CanadaOpportunityPublic,
+  CanadaRevisionPublic,
+} from '../../../lib/canada/types';
 import {
   CANADA_FUNDING_TYPES,
   CANADA_PROGRAM_TYPES,
@@ -10,6 +15,8 @@ import {
   type CanadaProgramType,
   type CanadaTriState,
 } from '../../../lib/canada/constants';
+import { canadaUrlKey } from '../../../../lib/services/canada/canonical';
+import { livenessThresholdsFromEnv } from '../../../../lib/services/canada/liveness';
 
 function getIp(req: Request) {
   const forwarded = req.headers.get('x-forwarded-for');
@@ -36,6 +43,7 @@ function pickPublic(row: Database['public']['Tables']['canada_opportunity']['Row
     program_type: row.program_type,
     province: row.province,
     city: row.city,
+    language: row.language,
     institution_name: row.institution_name,
     department: row.department,
     lab_group: row.lab_group,
@@ -44,14 +52,17 @@ function pickPublic(row: Database['public']['Tables']['canada_opportunity']['Row
     funding_type: row.funding_type,
     funding_confidence: row.funding_confidence,
     funding_evidence: row.funding_evidence,
+    funding_excerpt: row.funding_excerpt as CanadaEvidenceExcerpt | null,
     international_allowed: row.international_allowed,
     eligibility_confidence: row.eligibility_confidence,
     eligibility_notes: row.eligibility_notes,
     eligibility_evidence: row.eligibility_evidence,
+    eligibility_excerpt: row.eligibility_excerpt as CanadaEvidenceExcerpt | null,
     start_term: row.start_term,
     deadline_date: row.deadline_date,
     deadline_confidence: row.deadline_confidence,
     deadline_evidence: row.deadline_evidence,
+    deadline_excerpt: row.deadline_excerpt as CanadaEvidenceExcerpt | null,
     application_url: row.application_url,
     canonical_url: row.canonical_url,
     last_verified_at: row.last_verified_at,
@@ -60,6 +71,40 @@ function pickPublic(row: Database['public']['Tables']['canada_opportunity']['Row
   };
 }
 
+type OpportunityRow = Database['public']['Tables']['canada_opportunity']['Row'];
+
+// Other live copies of the same posting: the cluster primary and its secondaries.
+async function loadAlsoPostedAt(
+  supabase: ReturnType<typeof createServerSupabaseClient>,
+  row: OpportunityRow,
+): Promise<CanadaAlsoPostedAt[]> {
+  const primaryId = row.duplicate_of ?? row.id;
+  const { data } = await supabase
+    .from('canada_opportunity')
+    .select('id,canonical_url,institution_name,title_clean')
+    .or(`id.eq.${primaryId},duplicate_of.eq.${primaryId}`)
+    .neq('id', row.id)
+    .in('status', ['ACTIVE', 'NEEDS_REVIEW'])
+    .lt('consecutive_failures', livenessThresholdsFromEnv().hideAfterFailures)
+    .limit(20)
+    .returns<CanadaAlsoPostedAt[]>();
+  return data ?? [];
+}
+
+async function loadHistory(
+  supabase: ReturnType<typeof createServerSupabaseClient>,
+  opportunityId: string,
+): Promise<CanadaRevisionPublic[]> {
+  const { data } = await supabase
+    .from('canada_opportunity_revisions')
+    .select('id,created_at,diff')
+    .eq('opportunity_id', opportunityId)
+    .order('created_at', { ascending: false })
+    .limit(50)
+    .returns<CanadaRevisionPublic[]>();
+  return data ?? [];
+}
+
 function parseProgramType(v: string | null): CanadaProgramType | null {
   if (!v) return null;
   return (CANADA_PROGRAM_TYPES as readonly string[]).includes(v) ? (v as CanadaProgramType) : null;
@@ -106,7 +151,43 @@ export async function GET(request: Request) {
       return NextResponse.json({ error: 'Not found' }, { status: 404 });
     }
 
-    return NextResponse.json({ data: pickPublic(data) }, { status: 200 });
+    const history = url.searchParams.get('history') === '1' ? await loadHistory(supabase, data.id) : undefined;
+
+    return NextResponse.json(
+      { data: pickPublic(data), alsoPostedAt: await loadAlsoPostedAt(supabase, data), history },
+      { status: 200 },
+    );
+  }
+
+  // Lookup by source URL: any variant of the page URL (tracking params, www, scheme,
+  // trailing slash) resolves to the stored row; a #fragment selects one posting on it.
+  const sourceUrl = url.searchParams.get('url');
+  if (sourceUrl) {
+    const key = canadaUrlKey(sourceUrl);
+    if (!key) {
+      return NextResponse.json({ error: 'url is invalid' }, { status: 400 });
+    }
+    const fragment = new URL(sourceUrl).hash.slice(1);
+
+    let query = supabase.from('canada_opportunity').select('*').eq('url_key', key);
+    const lookupProgramType = parseProgramType(url.searchParams.get('program_type'));
+    if (lookupProgramType) query = query.eq('program_type', lookupProgramType);
+
+    const { data, error } = await query
+      .order('fragment_id', { ascending: true })
+      .limit(50)
+      .returns<Database['public']['Tables']['canada_opportunity']['Row'][]>();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    const rows = data ?? [];
+    const match = rows.find((r) => r.fragment_id === fragment) ?? rows[0];
+    if (!match) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ data: pickPublic(match), alsoPostedAt: await loadAlsoPostedAt(supabase, match) }, { status: 200 });
   }
 
   const programType = parseProgramType(url.searchParams.get('program_type'));
@@ -132,6 +213,9 @@ export async function GET(request: Request) {
     .select('*')
     .eq('program_type', programType)
     .in('status', ['ACTIVE', 'NEEDS_REVIEW'])
+    // Dead links drop out after a few failed checks, before verify retires them.
+    .lt('consecutive_failures', livenessThresholdsFromEnv().hideAfterFailures)
+    .is('duplicate_of', null)
     .order('last_verified_at', { ascending: false })
     .limit(limit + 1);
 
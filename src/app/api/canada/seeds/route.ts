@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { buildSeedReport } from '../../../../../lib/services/canada/seedStats';
+import { CANADA_PROGRAM_TYPES, type CanadaProgramType } from '../../../../lib/canada/constants';
+
+// Discovery yield per seed, for tuning sources. Guarded like the cron routes.
+export async function GET(request: Request) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (cronSecret) {
+    const provided = request.headers.get('x-cron-secret');
+    if (provided !== cronSecret) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+  }
+
+  const url = new URL(request.url);
+  const rawProgramType = url.searchParams.get('program_type');
+  const programType: CanadaProgramType | undefined = rawProgramType
+    ? (CANADA_PROGRAM_TYPES as readonly string[]).includes(rawProgramType)
+      ? (rawProgramType as CanadaProgramType)
+      : undefined
+    : undefined;
+  const rawLimit = Number(url.searchParams.get('limit') ?? '100');
+  const limit = Number.isFinite(rawLimit) ? Math.min(Math.max(rawLimit, 1), 500) : 100;
+
+  try {
+    const data = await buildSeedReport({ programType, limit });
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : 'Unknown error';
+    console.error('[canada-seeds] failed', e);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,7 +1,14 @@
 import { NextResponse } from 'next/server';
 import { runCanadaDiscover } from '../../../../../lib/services/canada/discover';
+import type { CanadaDiscoverMode } from '../../../../../lib/services/canada/types';
 import { CANADA_PROGRAM_TYPES, type CanadaProgramType } from '../../../../lib/canada/constants';
 
+// Each call works for at most `budget_ms` (default 45 s) and checkpoints; call again
+// until `status` is COMPLETED.
+export const maxDuration = 60;
+const MIN_BUDGET_MS = 10_000;
+const MAX_BUDGET_MS = 50_000;
+
 export async function GET(request: Request) {
   const cronSecret = process.env.CRON_SECRET;
   if (cronSecret) {
@@ -18,10 +25,14 @@ export async function GET(request: Request) {
       ? (rawProgramType as CanadaProgramType)
       : undefined
     : undefined;
+  const rawMode = (url.searchParams.get('mode') ?? '').toUpperCase();
+  const mode: CanadaDiscoverMode = rawMode === 'SITEMAP' ? 'SITEMAP' : 'CRAWL';
+  const rawBudget = Number(url.searchParams.get('budget_ms') ?? '45000');
+  const timeBudgetMs = Number.isFinite(rawBudget) ? Math.min(Math.max(rawBudget, MIN_BUDGET_MS), MAX_BUDGET_MS) : 45_000;
 
   try {
-    const result = await runCanadaDiscover(programType);
-    return NextResponse.json({ ok: true, result }, { status: 200 });
+    const { summary, ...progress } = await runCanadaDiscover({ programType, mode, timeBudgetMs });
+    return NextResponse.json({ ok: true, ...progress, result: summary }, { status: 200 });
   } catch (e) {
     const message = e instanceof Error ? e.message : 'Unknown error';
     console.error('[canada-discover] failed', e);
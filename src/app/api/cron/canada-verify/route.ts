@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { runCanadaVerify } from '../../../../../lib/services/canada/verify';
+import type { CanadaVerifyMode } from '../../../../../lib/services/canada/types';
 import { CANADA_PROGRAM_TYPES, type CanadaProgramType } from '../../../../lib/canada/constants';
 
 export async function GET(request: Request) {
@@ -21,9 +22,12 @@ export async function GET(request: Request) {
   const rawLimit = url.searchParams.get('limit');
   const parsedLimit = rawLimit ? Number(rawLimit) : NaN;
   const limit = Number.isFinite(parsedLimit) ? Math.min(Math.max(parsedLimit, 1), 200) : undefined;
+  // `mode=priority` spends the limit on the rows where stale data hurts most.
+  const rawMode = (url.searchParams.get('mode') ?? '').toUpperCase();
+  const mode: CanadaVerifyMode = rawMode === 'PRIORITY' ? 'PRIORITY' : 'OLDEST';
 
   try {
-    const result = await runCanadaVerify({ programType, limit });
+    const result = await runCanadaVerify({ programType, limit, mode });
     return NextResponse.json({ ok: true, result }, { status: 200 });
   } catch (e) {
     const message = e instanceof Error ? e.message : 'Unknown error';
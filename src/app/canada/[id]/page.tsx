@@ -3,8 +3,21 @@
 import { Suspense, useEffect, useMemo, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import NavbarNext from '../../../components/NavbarNext';
-import type { CanadaOpportunityPublic } from '../../../lib/canada/types';
-import { CANADA_FUNDING_LABEL, CANADA_TAB_LABEL, CANADA_TRI_STATE_LABEL } from '../../../lib/canada/constants';
+import type {
+  CanadaAlsoPostedAt,
+  CanadaEvidenceExcerpt,
+  CanadaOpportunityPublic,
+  CanadaRevisionPublic,
+} from '../../../lib/canada/types';
+import {
+  CANADA_FUNDING_LABEL,
+  CANADA_LANGUAGE_LABEL,
+  CANADA_REVISION_FIELD_LABEL,
+  CANADA_TAB_LABEL,
+  CANADA_TRI_STATE_LABEL,
+  type CanadaFundingType,
+  type CanadaTriState,
+} from '../../../lib/canada/constants';
 
 function formatVerifiedAgo(iso: string) {
   const then = new Date(iso).getTime();
@@ -15,6 +28,60 @@ function formatVerifiedAgo(iso: string) {
   return `${days}d ago`;
 }
 
+function formatRevisionValue(field: string, value: string | null) {
+  if (value === null) return '—';
+  if (field === 'funding_type') return CANADA_FUNDING_LABEL[value as CanadaFundingType] ?? value;
+  if (field === 'international_allowed') return CANADA_TRI_STATE_LABEL[value as CanadaTriState] ?? value;
+  if (field === 'application_url') {
+    try {
+      return new URL(value).hostname;
+    } catch {
+      return value;
+    }
+  }
+  return value;
+}
+
+// Scrolls to the quote on the source page (text fragment), or to its section in
+// browsers without text fragment support.
+function sourceAnchorUrl(sourceUrl: string, excerpt: CanadaEvidenceExcerpt) {
+  const match = excerpt.quote.slice(excerpt.match_start, excerpt.match_end);
+  const text = encodeURIComponent(match).replace(/-/g, '%2D');
+  return `${sourceUrl.split('#')[0]}#${excerpt.anchor ? encodeURIComponent(excerpt.anchor) : ''}:~:text=${text}`;
+}
+
+function Evidence({
+  excerpt,
+  evidence,
+  sourceUrl,
+}: {
+  excerpt: CanadaEvidenceExcerpt | null;
+  evidence: string | null;
+  sourceUrl: string;
+}) {
+  if (!excerpt) {
+    return evidence ? <div className="mt-1 text-[11px] text-slate-600 dark:text-slate-300">“{evidence}”</div> : null;
+  }
+  return (
+    <div className="mt-1 text-[11px] text-slate-600 dark:text-slate-300">
+      “{excerpt.quote.slice(0, excerpt.match_start)}
+      <mark className="rounded bg-[#FF9900]/25 px-0.5 text-inherit">
+        {excerpt.quote.slice(excerpt.match_start, excerpt.match_end)}
+      </mark>
+      {excerpt.quote.slice(excerpt.match_end)}”{' '}
+      <a
+        href={sourceAnchorUrl(sourceUrl, excerpt)}
+        target="_blank"
+        rel="noreferrer"
+        title={excerpt.selector ?? undefined}
+        className="whitespace-nowrap text-[#002147] dark:text-white hover:underline"
+      >
+        View on page ↗
+      </a>
+    </div>
+  );
+}
+
 function DetailInner() {
   const params = useParams<{ id: string }>();
   const router = useRouter();
@@ -23,6 +90,8 @@ function DetailInner() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [item, setItem] = useState<CanadaOpportunityPublic | null>(null);
+  const [alsoPostedAt, setAlsoPostedAt] = useState<CanadaAlsoPostedAt[]>([]);
+  const [history, setHistory] = useState<CanadaRevisionPublic[]>([]);
 
   useEffect(() => {
     if (!id) return;
@@ -31,12 +100,19 @@ function DetailInner() {
       setLoading(true);
       setError(null);
       try {
-        const res = await fetch(`/api/canada?id=${encodeURIComponent(id)}`);
+        const res = await fetch(`/api/canada?id=${encodeURIComponent(id)}&history=1`);
         if (!res.ok) throw new Error(`HTTP ${res.status}`);
-        const body = (await res.json()) as { data?: CanadaOpportunityPublic; error?: string };
+        const body = (await res.json()) as {
+          data?: CanadaOpportunityPublic;
+          alsoPostedAt?: CanadaAlsoPostedAt[];
+          history?: CanadaRevisionPublic[];
+          error?: string;
+        };
         if (body.error) throw new Error(body.error);
         if (!body.data) throw new Error('Not found');
         setItem(body.data);
+        setAlsoPostedAt(body.alsoPostedAt ?? []);
+        setHistory(body.history ?? []);
       } catch (e) {
         setError(e instanceof Error ? e.message : 'Failed to load');
       }
@@ -90,6 +166,11 @@ function DetailInner() {
                   <span className="px-2.5 py-1 rounded-full bg-white/60 dark:bg-white/10 border border-white/20 font-semibold text-[#002147] dark:text-white">
                     Freshness {item.freshness_score}/100
                   </span>
+                  {item.language && (
+                    <span className="px-2.5 py-1 rounded-full bg-white/60 dark:bg-white/10 border border-white/20 font-semibold text-[#002147] dark:text-white">
+                      {CANADA_LANGUAGE_LABEL[item.language]}
+                    </span>
+                  )}
                 </div>
 
                 <h1 className="mt-4 text-[clamp(1.6rem,2.8vw,2.4rem)] font-extrabold text-[#002147] dark:text-white leading-[1.08]">
@@ -123,6 +204,53 @@ function DetailInner() {
                     Source
                   </a>
                 </div>
+
+                {alsoPostedAt.length > 0 && (
+                  <div className="mt-6">
+                    <div className="text-[11px] uppercase tracking-wider text-slate-500 dark:text-slate-400">Also posted at</div>
+                    <ul className="mt-2 space-y-1 text-sm">
+                      {alsoPostedAt.map((copy) => (
+                        <li key={copy.id}>
+                          <a
+                            href={copy.canonical_url}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="text-[#002147] dark:text-white hover:underline"
+                          >
+                            {copy.institution_name}
+                          </a>
+                          <span className="text-slate-500 dark:text-slate-400"> · {new URL(copy.canonical_url).hostname}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {history.length > 0 && (
+                  <div className="mt-6">
+                    <div className="text-[11px] uppercase tracking-wider text-slate-500 dark:text-slate-400">What changed</div>
+                    <ol className="mt-2 space-y-3 border-l border-slate-300/60 dark:border-white/15 pl-4 text-sm">
+                      {history.map((revision) => (
+                        <li key={revision.id}>
+                          <div className="text-[11px] text-slate-500 dark:text-slate-400">
+                            {new Date(revision.created_at).toLocaleDateString()}
+                          </div>
+                          <ul className="mt-1 space-y-0.5 text-slate-800 dark:text-slate-100">
+                            {Object.entries(revision.diff).map(([field, change]) => (
+                              <li key={field}>
+                                <span className="font-semibold">{CANADA_REVISION_FIELD_LABEL[field] ?? field}:</span>{' '}
+                                <span className="text-slate-500 dark:text-slate-400 line-through">
+                                  {formatRevisionValue(field, change.from)}
+                                </span>{' '}
+                                → {formatRevisionValue(field, change.to)}
+                              </li>
+                            ))}
+                          </ul>
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                )}
               </div>
             </section>
 
@@ -141,9 +269,7 @@ function DetailInner() {
                       <div className="text-[11px] uppercase tracking-wider text-slate-500 dark:text-slate-400">Deadline</div>
                       <div className="font-semibold">{item.deadline_date ?? 'TBD'}</div>
                       <div className="text-[11px] text-slate-500 dark:text-slate-400">Confidence: {item.deadline_confidence}</div>
-                      {item.deadline_evidence ? (
-                        <div className="mt-1 text-[11px] text-slate-600 dark:text-slate-300">“{item.deadline_evidence}”</div>
-                      ) : null}
+                      <Evidence excerpt={item.deadline_excerpt} evidence={item.deadline_evidence} sourceUrl={item.canonical_url} />
                     </div>
                     <div>
                       <div className="text-[11px] uppercase tracking-wider text-slate-500 dark:text-slate-400">Start term</div>
@@ -155,18 +281,18 @@ function DetailInner() {
                     <div className="text-[11px] uppercase tracking-wider text-slate-500 dark:text-slate-400">Funding</div>
                     <div className="font-semibold">{CANADA_FUNDING_LABEL[item.funding_type]}</div>
                     <div className="text-[11px] text-slate-500 dark:text-slate-400">Confidence: {item.funding_confidence}</div>
-                    {item.funding_evidence ? (
-                      <div className="mt-1 text-[11px] text-slate-600 dark:text-slate-300">“{item.funding_evidence}”</div>
-                    ) : null}
+                    <Evidence excerpt={item.funding_excerpt} evidence={item.funding_evidence} sourceUrl={item.canonical_url} />
                   </div>
 
                   <div>
                     <div className="text-[11px] uppercase tracking-wider text-slate-500 dark:text-slate-400">International applicants</div>
                     <div className="font-semibold">{CANADA_TRI_STATE_LABEL[item.international_allowed]}</div>
                     <div className="text-[11px] text-slate-500 dark:text-slate-400">Confidence: {item.eligibility_confidence}</div>
-                    {item.eligibility_evidence ? (
-                      <div className="mt-1 text-[11px] text-slate-600 dark:text-slate-300">“{item.eligibility_evidence}”</div>
-                    ) : null}
+                    <Evidence
+                      excerpt={item.eligibility_excerpt}
+                      evidence={item.eligibility_evidence}
+                      sourceUrl={item.canonical_url}
+                    />
                     {item.eligibility_notes ? (
                       <div className="mt-1 text-[11px] text-slate-600 dark:text-slate-300">{item.eligibility_notes}</div>
                     ) : null}
@@ -8,6 +8,7 @@ import type { CanadaOpportunityPublic } from '../../lib/canada/types';
 import {
   CANADA_FUNDING_LABEL,
   CANADA_FUNDING_TYPES,
+  CANADA_LANGUAGE_LABEL,
   CANADA_PROGRAM_TYPES,
   CANADA_TAB_LABEL,
   CANADA_TRI_STATE_LABEL,
@@ -308,6 +309,14 @@ function CanadaPageInner() {
                       <span className="px-2.5 py-1 rounded-full bg-white/60 dark:bg-white/10 border border-white/20 text-xs font-semibold text-[#002147] dark:text-white">
                         Intl {CANADA_TRI_STATE_LABEL[row.international_allowed]} · {row.eligibility_confidence}
                       </span>
+                      {row.language && (
+                        <span
+                          title={CANADA_LANGUAGE_LABEL[row.language]}
+                          className="px-2.5 py-1 rounded-full bg-white/60 dark:bg-white/10 border border-white/20 text-xs font-semibold text-[#002147] dark:text-white"
+                        >
+                          {row.language.toUpperCase()}
+                        </span>
+                      )}
                     </div>
                   </div>
                 </div>
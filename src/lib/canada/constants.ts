@@ -16,9 +16,15 @@ export type CanadaTriState = (typeof CANADA_TRI_STATES)[number];
 export const CANADA_CONFIDENCE = ['HIGH', 'MEDIUM', 'LOW'] as const;
 export type CanadaConfidence = (typeof CANADA_CONFIDENCE)[number];
 
-export const CANADA_OPPORTUNITY_STATUS = ['ACTIVE', 'EXPIRED', 'BLOCKED', 'NEEDS_REVIEW'] as const;
+export const CANADA_OPPORTUNITY_STATUS = ['ACTIVE', 'EXPIRED', 'BLOCKED', 'NEEDS_REVIEW', 'REMOVED', 'FILLED'] as const;
 export type CanadaOpportunityStatus = (typeof CANADA_OPPORTUNITY_STATUS)[number];
 
+// No longer open: never listed, re-verified or clustered.
+export const CANADA_CLOSED_STATUSES = ['EXPIRED', 'REMOVED', 'FILLED'] as const satisfies readonly CanadaOpportunityStatus[];
+
+export const CANADA_LANGUAGES = ['en', 'fr'] as const;
+export type CanadaLanguage = (typeof CANADA_LANGUAGES)[number];
+
 export function assertNever(x: never): never {
   throw new Error(`Unexpected value: ${String(x)}`);
 }
@@ -42,3 +48,18 @@ export const CANADA_TRI_STATE_LABEL: Record<CanadaTriState, string> = {
   NO: 'No',
   UNKNOWN: 'Unknown',
 };
+
+export const CANADA_LANGUAGE_LABEL: Record<CanadaLanguage, string> = {
+  en: 'English',
+  fr: 'Français',
+};
+
+export const CANADA_REVISION_FIELD_LABEL: Record<string, string> = {
+  title_clean: 'Title',
+  institution_name: 'Institution',
+  deadline_date: 'Deadline',
+  funding_type: 'Funding',
+  international_allowed: 'International applicants',
+  start_term: 'Start term',
+  application_url: 'Application link',
+};
@@ -1,16 +1,33 @@
 import type {
   CanadaConfidence,
   CanadaFundingType,
+  CanadaLanguage,
   CanadaOpportunityStatus,
   CanadaProgramType,
   CanadaTriState,
 } from './constants';
 
+// Where on the source page an extracted value came from.
+export type CanadaEvidenceExcerpt = {
+  // The sentence holding the match, verbatim from the page text.
+  quote: string;
+  // Offsets of the quote within the posting's extracted text.
+  start: number;
+  end: number;
+  // Offsets of the matched phrase within the quote.
+  match_start: number;
+  match_end: number;
+  // CSS path of the smallest element containing the quote, and its nearest id.
+  selector: string | null;
+  anchor: string | null;
+};
+
 export type CanadaOpportunityPublic = {
   id: string;
   program_type: CanadaProgramType;
   province: string | null;
   city: string | null;
+  language: CanadaLanguage | null;
   institution_name: string;
   department: string | null;
   lab_group: string | null;
@@ -19,14 +36,17 @@ export type CanadaOpportunityPublic = {
   funding_type: CanadaFundingType;
   funding_confidence: CanadaConfidence;
   funding_evidence: string | null;
+  funding_excerpt: CanadaEvidenceExcerpt | null;
   international_allowed: CanadaTriState;
   eligibility_confidence: CanadaConfidence;
   eligibility_notes: string | null;
   eligibility_evidence: string | null;
+  eligibility_excerpt: CanadaEvidenceExcerpt | null;
   start_term: string | null;
   deadline_date: string | null;
   deadline_confidence: CanadaConfidence;
   deadline_evidence: string | null;
+  deadline_excerpt: CanadaEvidenceExcerpt | null;
   application_url: string;
   canonical_url: string;
   last_verified_at: string;
@@ -49,6 +69,22 @@ export type CanadaListResponse = {
   nextCursor: string | null;
 };
 
+export type CanadaAlsoPostedAt = {
+  id: string;
+  canonical_url: string;
+  institution_name: string;
+  title_clean: string;
+};
+
+export type CanadaRevisionPublic = {
+  id: string;
+  created_at: string;
+  diff: Record<string, { from: string | null; to: string | null }>;
+};
+
 export type CanadaDetailResponse = {
   data: CanadaOpportunityPublic;
+  alsoPostedAt: CanadaAlsoPostedAt[];
+  // Newest first; present when requested with `history=1`.
+  history?: CanadaRevisionPublic[];
 };
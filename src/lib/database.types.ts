@@ -179,6 +179,8 @@ export type Database = {
           max_requests_per_run: number;
           min_delay_ms: number;
           notes: string | null;
+          review_status: 'PENDING' | 'APPROVED' | 'REJECTED';
+          proposed_from: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -196,6 +198,8 @@ export type Database = {
           max_requests_per_run?: number;
           min_delay_ms?: number;
           notes?: string | null;
+          review_status?: 'PENDING' | 'APPROVED' | 'REJECTED';
+          proposed_from?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -213,6 +217,8 @@ export type Database = {
           max_requests_per_run?: number;
           min_delay_ms?: number;
           notes?: string | null;
+          review_status?: 'PENDING' | 'APPROVED' | 'REJECTED';
+          proposed_from?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -226,6 +232,7 @@ export type Database = {
           country: string;
           province: string | null;
           city: string | null;
+          language: 'en' | 'fr' | null;
           institution_name: string;
           department: string | null;
           lab_group: string | null;
@@ -234,21 +241,37 @@ export type Database = {
           funding_type: 'FUNDED' | 'PARTIALLY_FUNDED' | 'EXTERNAL_FUNDING_OK' | 'SELF_FUNDED_OK' | 'UNKNOWN';
           funding_confidence: 'HIGH' | 'MEDIUM' | 'LOW';
           funding_evidence: string | null;
+          funding_excerpt: unknown;
           international_allowed: 'YES' | 'NO' | 'UNKNOWN';
           eligibility_confidence: 'HIGH' | 'MEDIUM' | 'LOW';
           eligibility_notes: string | null;
           eligibility_evidence: string | null;
+          eligibility_excerpt: unknown;
           start_term: string | null;
           deadline_date: string | null;
           deadline_confidence: 'HIGH' | 'MEDIUM' | 'LOW';
           deadline_evidence: string | null;
+          deadline_excerpt: unknown;
+          deadline_score: number;
+          funding_score: number;
+          eligibility_score: number;
+          confidence_factors: unknown;
           application_url: string;
           source_url: string;
           canonical_url: string;
+          fragment_id: string;
+          url_key: string;
+          fingerprint: string | null;
+          fingerprint_bands: string[];
+          duplicate_of: string | null;
           last_verified_at: string;
           freshness_score: number;
-          status: 'ACTIVE' | 'EXPIRED' | 'BLOCKED' | 'NEEDS_REVIEW';
+          status: 'ACTIVE' | 'EXPIRED' | 'BLOCKED' | 'NEEDS_REVIEW' | 'REMOVED' | 'FILLED';
           status_reason: string | null;
+          consecutive_failures: number;
+          terminal_signal: 'http_404' | 'http_410' | 'position_filled' | 'no_longer_accepting' | null;
+          terminal_signal_count: number;
+          bookmark_count: number;
           content_hash: string;
           page_last_modified: string | null;
           etag: string | null;
@@ -261,6 +284,7 @@ export type Database = {
           country?: string;
           province?: string | null;
           city?: string | null;
+          language?: 'en' | 'fr' | null;
           institution_name: string;
           department?: string | null;
           lab_group?: string | null;
@@ -269,21 +293,37 @@ export type Database = {
           funding_type?: 'FUNDED' | 'PARTIALLY_FUNDED' | 'EXTERNAL_FUNDING_OK' | 'SELF_FUNDED_OK' | 'UNKNOWN';
           funding_confidence?: 'HIGH' | 'MEDIUM' | 'LOW';
           funding_evidence?: string | null;
+          funding_excerpt?: unknown;
           international_allowed?: 'YES' | 'NO' | 'UNKNOWN';
           eligibility_confidence?: 'HIGH' | 'MEDIUM' | 'LOW';
           eligibility_notes?: string | null;
           eligibility_evidence?: string | null;
+          eligibility_excerpt?: unknown;
           start_term?: string | null;
           deadline_date?: string | null;
           deadline_confidence?: 'HIGH' | 'MEDIUM' | 'LOW';
           deadline_evidence?: string | null;
+          deadline_excerpt?: unknown;
+          deadline_score?: number;
+          funding_score?: number;
+          eligibility_score?: number;
+          confidence_factors?: unknown;
           application_url: string;
           source_url: string;
           canonical_url: string;
+          fragment_id?: string;
+          url_key: string;
+          fingerprint?: string | null;
+          fingerprint_bands?: string[];
+          duplicate_of?: string | null;
           last_verified_at?: string;
           freshness_score?: number;
-          status?: 'ACTIVE' | 'EXPIRED' | 'BLOCKED' | 'NEEDS_REVIEW';
+          status?: 'ACTIVE' | 'EXPIRED' | 'BLOCKED' | 'NEEDS_REVIEW' | 'REMOVED' | 'FILLED';
           status_reason?: string | null;
+          consecutive_failures?: number;
+          terminal_signal?: 'http_404' | 'http_410' | 'position_filled' | 'no_longer_accepting' | null;
+          terminal_signal_count?: number;
+          bookmark_count?: number;
           content_hash: string;
           page_last_modified?: string | null;
           etag?: string | null;
@@ -296,6 +336,7 @@ export type Database = {
           country?: string;
           province?: string | null;
           city?: string | null;
+          language?: 'en' | 'fr' | null;
           institution_name?: string;
           department?: string | null;
           lab_group?: string | null;
@@ -304,21 +345,37 @@ export type Database = {
           funding_type?: 'FUNDED' | 'PARTIALLY_FUNDED' | 'EXTERNAL_FUNDING_OK' | 'SELF_FUNDED_OK' | 'UNKNOWN';
           funding_confidence?: 'HIGH' | 'MEDIUM' | 'LOW';
           funding_evidence?: string | null;
+          funding_excerpt?: unknown;
           international_allowed?: 'YES' | 'NO' | 'UNKNOWN';
           eligibility_confidence?: 'HIGH' | 'MEDIUM' | 'LOW';
           eligibility_notes?: string | null;
           eligibility_evidence?: string | null;
+          eligibility_excerpt?: unknown;
           start_term?: string | null;
           deadline_date?: string | null;
           deadline_confidence?: 'HIGH' | 'MEDIUM' | 'LOW';
           deadline_evidence?: string | null;
+          deadline_excerpt?: unknown;
+          deadline_score?: number;
+          funding_score?: number;
+          eligibility_score?: number;
+          confidence_factors?: unknown;
           application_url?: string;
           source_url?: string;
           canonical_url?: string;
+          fragment_id?: string;
+          url_key?: string;
+          fingerprint?: string | null;
+          fingerprint_bands?: string[];
+          duplicate_of?: string | null;
           last_verified_at?: string;
           freshness_score?: number;
-          status?: 'ACTIVE' | 'EXPIRED' | 'BLOCKED' | 'NEEDS_REVIEW';
+          status?: 'ACTIVE' | 'EXPIRED' | 'BLOCKED' | 'NEEDS_REVIEW' | 'REMOVED' | 'FILLED';
           status_reason?: string | null;
+          consecutive_failures?: number;
+          terminal_signal?: 'http_404' | 'http_410' | 'position_filled' | 'no_longer_accepting' | null;
+          terminal_signal_count?: number;
+          bookmark_count?: number;
           content_hash?: string;
           page_last_modified?: string | null;
           etag?: string | null;
@@ -328,15 +385,66 @@ export type Database = {
         Relationships: [];
       };
 
+      canada_opportunity_revisions: {
+        Row: {
+          id: string;
+          opportunity_id: string;
+          fetch_log_id: string | null;
+          content_hash: string | null;
+          snapshot: unknown;
+          diff: unknown;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          opportunity_id: string;
+          fetch_log_id?: string | null;
+          content_hash?: string | null;
+          snapshot: unknown;
+          diff: unknown;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          opportunity_id?: string;
+          fetch_log_id?: string | null;
+          content_hash?: string | null;
+          snapshot?: unknown;
+          diff?: unknown;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+
+      canada_opportunity_bookmarks: {
+        Row: {
+          user_id: string;
+          opportunity_id: string;
+          created_at: string;
+        };
+        Insert: {
+          user_id: string;
+          opportunity_id: string;
+          created_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          opportunity_id?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+
       canada_fetch_logs: {
         Row: {
           id: string;
           action: 'DISCOVER' | 'VERIFY';
-          status: 'OK' | 'NOT_MODIFIED' | 'BLOCKED' | 'ERROR';
+          status: 'OK' | 'NOT_MODIFIED' | 'BLOCKED' | 'ERROR' | 'DEFERRED';
           program_type: 'VISITING_RESEARCH' | 'INTERNSHIP' | 'PHD' | null;
           source_id: string | null;
           canonical_url: string | null;
           fetched_url: string;
+          attempt: number;
           fetched_at: string;
           http_status: number | null;
           elapsed_ms: number | null;
@@ -350,11 +458,12 @@ export type Database = {
         Insert: {
           id?: string;
           action: 'DISCOVER' | 'VERIFY';
-          status: 'OK' | 'NOT_MODIFIED' | 'BLOCKED' | 'ERROR';
+          status: 'OK' | 'NOT_MODIFIED' | 'BLOCKED' | 'ERROR' | 'DEFERRED';
           program_type?: 'VISITING_RESEARCH' | 'INTERNSHIP' | 'PHD' | null;
           source_id?: string | null;
           canonical_url?: string | null;
           fetched_url: string;
+          attempt?: number;
           fetched_at?: string;
           http_status?: number | null;
           elapsed_ms?: number | null;
@@ -368,11 +477,12 @@ export type Database = {
         Update: {
           id?: string;
           action?: 'DISCOVER' | 'VERIFY';
-          status?: 'OK' | 'NOT_MODIFIED' | 'BLOCKED' | 'ERROR';
+          status?: 'OK' | 'NOT_MODIFIED' | 'BLOCKED' | 'ERROR' | 'DEFERRED';
           program_type?: 'VISITING_RESEARCH' | 'INTERNSHIP' | 'PHD' | null;
           source_id?: string | null;
           canonical_url?: string | null;
           fetched_url?: string;
+          attempt?: number;
           fetched_at?: string;
           http_status?: number | null;
           elapsed_ms?: number | null;
@@ -398,6 +508,8 @@ export type Database = {
           blocked: number;
           expired: number;
           last_run_at: string | null;
+          consecutive_empty_runs: number;
+          next_run_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -412,6 +524,8 @@ export type Database = {
           blocked?: number;
           expired?: number;
           last_run_at?: string | null;
+          consecutive_empty_runs?: number;
+          next_run_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -426,6 +540,100 @@ export type Database = {
           blocked?: number;
           expired?: number;
           last_run_at?: string | null;
+          consecutive_empty_runs?: number;
+          next_run_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+
+      canada_crawl_runs: {
+        Row: {
+          id: string;
+          program_type: 'VISITING_RESEARCH' | 'INTERNSHIP' | 'PHD' | null;
+          mode: 'CRAWL' | 'SITEMAP';
+          status: 'RUNNING' | 'COMPLETED' | 'FAILED';
+          plan: unknown;
+          cursor: number;
+          frontier: unknown;
+          summary: unknown;
+          invocations: number;
+          consecutive_failures: number;
+          last_error: string | null;
+          locked_until: string | null;
+          started_at: string;
+          finished_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          program_type?: 'VISITING_RESEARCH' | 'INTERNSHIP' | 'PHD' | null;
+          mode: 'CRAWL' | 'SITEMAP';
+          status?: 'RUNNING' | 'COMPLETED' | 'FAILED';
+          plan?: unknown;
+          cursor?: number;
+          frontier?: unknown;
+          summary?: unknown;
+          invocations?: number;
+          consecutive_failures?: number;
+          last_error?: string | null;
+          locked_until?: string | null;
+          started_at?: string;
+          finished_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          program_type?: 'VISITING_RESEARCH' | 'INTERNSHIP' | 'PHD' | null;
+          mode?: 'CRAWL' | 'SITEMAP';
+          status?: 'RUNNING' | 'COMPLETED' | 'FAILED';
+          plan?: unknown;
+          cursor?: number;
+          frontier?: unknown;
+          summary?: unknown;
+          invocations?: number;
+          consecutive_failures?: number;
+          last_error?: string | null;
+          locked_until?: string | null;
+          started_at?: string;
+          finished_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+
+      canada_host_state: {
+        Row: {
+          host: string;
+          last_request_at: string | null;
+          backoff_until: string | null;
+          consecutive_blocks: number;
+          robots_policy: unknown;
+          robots_fetched_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          host: string;
+          last_request_at?: string | null;
+          backoff_until?: string | null;
+          consecutive_blocks?: number;
+          robots_policy?: unknown;
+          robots_fetched_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          host?: string;
+          last_request_at?: string | null;
+          backoff_until?: string | null;
+          consecutive_blocks?: number;
+          robots_policy?: unknown;
+          robots_fetched_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -476,7 +684,39 @@ export type Database = {
       };
     };
     Views: Record<string, never>;
-    Functions: Record<string, never>;
+    Functions: {
+      canada_reserve_host_slot: {
+        Args: { p_host: string; p_min_delay_ms: number };
+        Returns: number;
+      };
+      canada_record_seed_run: {
+        Args: {
+          p_seed_key: string;
+          p_program_type: 'VISITING_RESEARCH' | 'INTERNSHIP' | 'PHD';
+          p_strategy: 'GOOGLE_SEED' | 'CURATED' | 'OPPORTUNISTIC';
+          p_urls_found: number;
+          p_accepted: number;
+          p_blocked: number;
+          p_expired: number;
+          p_unchanged: number;
+          p_backoff_base_hours: number;
+          p_backoff_max_hours: number;
+        };
+        Returns: undefined;
+      };
+      canada_patch_opportunities: {
+        Args: { p_patches: Array<{ id: string; patch: Database['public']['Tables']['canada_opportunity']['Update'] }> };
+        Returns: Array<{ id: string; error: string | null }>;
+      };
+      canada_claim_crawl_run: {
+        Args: {
+          p_program_type: 'VISITING_RESEARCH' | 'INTERNSHIP' | 'PHD' | null;
+          p_mode: 'CRAWL' | 'SITEMAP';
+          p_lease_seconds: number;
+        };
+        Returns: Database['public']['Tables']['canada_crawl_runs']['Row'][];
+      };
+    };
     Enums: Record<string, never>;
     CompositeTypes: Record<string, never>;
   };
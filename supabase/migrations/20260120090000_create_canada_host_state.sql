@@ -0,0 +1,56 @@
+-- Canada module: per-host politeness state shared across cron invocations
+
+CREATE TABLE IF NOT EXISTS canada_host_state (
+  host text PRIMARY KEY,
+
+  last_request_at timestamptz,
+  backoff_until timestamptz,
+  consecutive_blocks int NOT NULL DEFAULT 0,
+
+  robots_policy jsonb,
+  robots_fetched_at timestamptz,
+
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT canada_host_state_host_nonempty CHECK (length(trim(host)) > 0),
+  CONSTRAINT canada_host_state_consecutive_blocks_nonnegative CHECK (consecutive_blocks >= 0)
+);
+
+CREATE TRIGGER canada_host_state_set_updated_at
+BEFORE UPDATE ON canada_host_state
+FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+-- Atomically reserves the next request slot for a host and returns the number of
+-- milliseconds the caller must wait before sending it. The row lock taken by the
+-- upsert serializes concurrent invocations hitting the same host.
+CREATE OR REPLACE FUNCTION canada_reserve_host_slot(p_host text, p_min_delay_ms int)
+RETURNS int AS $canada_reserve_host_slot$
+DECLARE
+  slot timestamptz;
+BEGIN
+  INSERT INTO canada_host_state (host, last_request_at)
+  VALUES (p_host, now())
+  ON CONFLICT (host) DO UPDATE
+    SET last_request_at = GREATEST(
+      now(),
+      COALESCE(canada_host_state.last_request_at, now()) + make_interval(secs => p_min_delay_ms / 1000.0)
+    )
+  RETURNING last_request_at INTO slot;
+
+  RETURN GREATEST(0, CEIL(EXTRACT(EPOCH FROM (slot - now())) * 1000))::int;
+END;
+$canada_reserve_host_slot$ LANGUAGE plpgsql;
+
+ALTER TABLE canada_host_state ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  CREATE POLICY "Service role full access: canada_host_state"
+    ON canada_host_state
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
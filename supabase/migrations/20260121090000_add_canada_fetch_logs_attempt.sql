@@ -0,0 +1,11 @@
+-- Canada module: record retry attempt number on each fetch log row
+
+ALTER TABLE canada_fetch_logs
+  ADD COLUMN IF NOT EXISTS attempt int NOT NULL DEFAULT 1;
+
+DO $$ BEGIN
+  ALTER TABLE canada_fetch_logs
+    ADD CONSTRAINT canada_fetch_logs_attempt_positive CHECK (attempt >= 1);
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
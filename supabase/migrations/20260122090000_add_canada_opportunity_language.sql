@@ -0,0 +1,11 @@
+-- Canada module: detected page language (ISO 639-1) for bilingual/Quebec postings
+
+ALTER TABLE canada_opportunity
+  ADD COLUMN IF NOT EXISTS language text;
+
+DO $$ BEGIN
+  ALTER TABLE canada_opportunity
+    ADD CONSTRAINT canada_opportunity_language_check CHECK (language IS NULL OR language IN ('en', 'fr'));
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
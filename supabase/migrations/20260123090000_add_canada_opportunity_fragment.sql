@@ -0,0 +1,8 @@
+-- Canada module: several postings can share one page; identify each by a fragment within it.
+-- '' is the whole page, so existing rows keep their identity.
+
+ALTER TABLE canada_opportunity
+  ADD COLUMN IF NOT EXISTS fragment_id text NOT NULL DEFAULT '';
+
+DROP INDEX IF EXISTS canada_opportunity_unique;
+CREATE UNIQUE INDEX IF NOT EXISTS canada_opportunity_unique ON canada_opportunity (program_type, canonical_url, fragment_id);
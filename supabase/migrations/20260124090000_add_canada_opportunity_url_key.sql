@@ -0,0 +1,29 @@
+-- Canada module: URL identity key so tracking params, fragments, www/http and trailing
+-- slash variants of one page collapse onto a single opportunity row.
+-- canonical_url stays the fetchable URL; url_key is what uniqueness is enforced on.
+
+ALTER TABLE canada_opportunity
+  ADD COLUMN IF NOT EXISTS url_key text;
+
+-- The key is canadaUrlKey() in lib/services/canada/canonical.ts, which SQL cannot
+-- reproduce exactly (percent-encoding, parameter order). Existing rows get their
+-- canonical_url as a placeholder key, unique as canonical_url was; then
+-- `npx tsx scripts/backfill-canada-url-keys.ts` computes the real keys and merges the
+-- rows that share one. Until then verify fixes the key of each row it checks, retiring
+-- the row when another already holds the real key.
+UPDATE canada_opportunity
+SET url_key = canonical_url
+WHERE url_key IS NULL;
+
+ALTER TABLE canada_opportunity
+  ALTER COLUMN url_key SET NOT NULL;
+
+DO $$ BEGIN
+  ALTER TABLE canada_opportunity
+    ADD CONSTRAINT canada_opportunity_url_key_nonempty CHECK (length(trim(url_key)) > 0);
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+DROP INDEX IF EXISTS canada_opportunity_unique;
+CREATE UNIQUE INDEX IF NOT EXISTS canada_opportunity_unique ON canada_opportunity (program_type, url_key, fragment_id);
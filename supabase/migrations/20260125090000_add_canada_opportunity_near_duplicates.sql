@@ -0,0 +1,39 @@
+-- Canada module: MinHash fingerprints of the main text and near-duplicate clustering.
+-- A secondary points at its cluster's primary through duplicate_of; primaries have NULL.
+
+ALTER TABLE canada_opportunity
+  ADD COLUMN IF NOT EXISTS fingerprint text,
+  ADD COLUMN IF NOT EXISTS fingerprint_bands text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS duplicate_of uuid REFERENCES canada_opportunity(id) ON DELETE SET NULL;
+
+DO $$ BEGIN
+  ALTER TABLE canada_opportunity
+    ADD CONSTRAINT canada_opportunity_fingerprint_format CHECK (fingerprint IS NULL OR fingerprint ~ '^[0-9a-f]{256}$');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE canada_opportunity
+    ADD CONSTRAINT canada_opportunity_not_own_duplicate CHECK (duplicate_of IS NULL OR duplicate_of <> id);
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE INDEX IF NOT EXISTS canada_opportunity_fingerprint_bands_idx ON canada_opportunity USING gin (fingerprint_bands);
+CREATE INDEX IF NOT EXISTS canada_opportunity_duplicate_of_idx ON canada_opportunity (duplicate_of);
+
+-- An expired primary must not keep its mirrors hidden; they are re-clustered on their next verify.
+CREATE OR REPLACE FUNCTION canada_release_duplicates() RETURNS trigger AS $canada_release_duplicates$
+BEGIN
+  UPDATE canada_opportunity SET duplicate_of = NULL WHERE duplicate_of = NEW.id;
+  RETURN NEW;
+END;
+$canada_release_duplicates$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS canada_opportunity_release_duplicates ON canada_opportunity;
+CREATE TRIGGER canada_opportunity_release_duplicates
+AFTER UPDATE OF status ON canada_opportunity
+FOR EACH ROW
+WHEN (NEW.status = 'EXPIRED' AND OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION canada_release_duplicates();
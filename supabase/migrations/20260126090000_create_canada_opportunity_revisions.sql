@@ -0,0 +1,36 @@
+-- Canada module: history of material changes to an opportunity (deadline extensions,
+-- funding or eligibility changes) that verify and discover would otherwise overwrite
+
+CREATE TABLE IF NOT EXISTS canada_opportunity_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  opportunity_id uuid NOT NULL REFERENCES canada_opportunity(id) ON DELETE CASCADE,
+
+  -- The fetch whose content produced this revision
+  fetch_log_id uuid REFERENCES canada_fetch_logs(id) ON DELETE SET NULL,
+  content_hash text,
+
+  -- Tracked field values after the change, and { field: { from, to } } for the fields that moved
+  snapshot jsonb NOT NULL,
+  diff jsonb NOT NULL,
+
+  created_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT canada_opportunity_revisions_diff_object CHECK (jsonb_typeof(diff) = 'object'),
+  CONSTRAINT canada_opportunity_revisions_snapshot_object CHECK (jsonb_typeof(snapshot) = 'object')
+);
+
+CREATE INDEX IF NOT EXISTS canada_opportunity_revisions_opportunity_idx
+  ON canada_opportunity_revisions (opportunity_id, created_at DESC);
+
+ALTER TABLE canada_opportunity_revisions ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  CREATE POLICY "Service role full access: canada_opportunity_revisions"
+    ON canada_opportunity_revisions
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
@@ -0,0 +1,19 @@
+-- Canada module: the page excerpt each extracted field was read from
+-- ({ quote, start, end, match_start, match_end, selector, anchor }), so reviewers can
+-- check why a deadline, funding type or eligibility was set
+
+ALTER TABLE canada_opportunity
+  ADD COLUMN IF NOT EXISTS deadline_excerpt jsonb,
+  ADD COLUMN IF NOT EXISTS funding_excerpt jsonb,
+  ADD COLUMN IF NOT EXISTS eligibility_excerpt jsonb;
+
+DO $$ BEGIN
+  ALTER TABLE canada_opportunity
+    ADD CONSTRAINT canada_opportunity_excerpts_object CHECK (
+      (deadline_excerpt IS NULL OR jsonb_typeof(deadline_excerpt) = 'object') AND
+      (funding_excerpt IS NULL OR jsonb_typeof(funding_excerpt) = 'object') AND
+      (eligibility_excerpt IS NULL OR jsonb_typeof(eligibility_excerpt) = 'object')
+    );
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
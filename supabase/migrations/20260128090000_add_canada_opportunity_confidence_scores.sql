@@ -0,0 +1,28 @@
+-- Canada module: numeric extraction confidence (0-100) behind the HIGH/MEDIUM/LOW
+-- labels, and the signals that produced it
+-- ({ deadline: [{ signal, value, points }], funding: [...], eligibility: [...] }),
+-- kept so a change of weights can be replayed over stored rows
+
+ALTER TABLE canada_opportunity
+  ADD COLUMN IF NOT EXISTS deadline_score smallint NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS funding_score smallint NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS eligibility_score smallint NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS confidence_factors jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+DO $$ BEGIN
+  ALTER TABLE canada_opportunity
+    ADD CONSTRAINT canada_opportunity_scores_range CHECK (
+      deadline_score BETWEEN 0 AND 100 AND
+      funding_score BETWEEN 0 AND 100 AND
+      eligibility_score BETWEEN 0 AND 100
+    );
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE canada_opportunity
+    ADD CONSTRAINT canada_opportunity_confidence_factors_object CHECK (jsonb_typeof(confidence_factors) = 'object');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
@@ -0,0 +1,60 @@
+-- Canada module: per-run seed accounting and backoff for sources that keep coming up empty
+
+ALTER TABLE canada_seed_stats
+  ADD COLUMN IF NOT EXISTS consecutive_empty_runs int NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS next_run_at timestamptz;
+
+DO $$ BEGIN
+  ALTER TABLE canada_seed_stats
+    ADD CONSTRAINT canada_seed_stats_consecutive_empty_runs_nonnegative CHECK (consecutive_empty_runs >= 0);
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE INDEX IF NOT EXISTS canada_seed_stats_next_run_idx ON canada_seed_stats (next_run_at);
+
+-- Adds one run's outcome to a seed's totals. A run that accepts nothing pushes the
+-- seed's next run out by p_backoff_base_hours, doubling per consecutive empty run up
+-- to p_backoff_max_hours; any accepted posting clears the backoff.
+CREATE OR REPLACE FUNCTION canada_record_seed_run(
+  p_seed_key text,
+  p_program_type canada_program_type,
+  p_strategy canada_source_strategy,
+  p_urls_found int,
+  p_accepted int,
+  p_blocked int,
+  p_expired int,
+  p_backoff_base_hours int,
+  p_backoff_max_hours int
+)
+RETURNS void AS $canada_record_seed_run$
+BEGIN
+  INSERT INTO canada_seed_stats AS s (
+    seed_key, program_type, strategy,
+    runs_count, urls_found, accepted, blocked, expired,
+    last_run_at, consecutive_empty_runs, next_run_at
+  )
+  VALUES (
+    p_seed_key, p_program_type, p_strategy,
+    1, p_urls_found, p_accepted, p_blocked, p_expired,
+    now(),
+    CASE WHEN p_accepted > 0 THEN 0 ELSE 1 END,
+    CASE WHEN p_accepted > 0 THEN NULL ELSE now() + make_interval(hours => p_backoff_base_hours) END
+  )
+  ON CONFLICT (seed_key, program_type, strategy) DO UPDATE
+    SET runs_count = s.runs_count + 1,
+        urls_found = s.urls_found + p_urls_found,
+        accepted = s.accepted + p_accepted,
+        blocked = s.blocked + p_blocked,
+        expired = s.expired + p_expired,
+        last_run_at = now(),
+        consecutive_empty_runs = CASE WHEN p_accepted > 0 THEN 0 ELSE s.consecutive_empty_runs + 1 END,
+        next_run_at = CASE
+          WHEN p_accepted > 0 THEN NULL
+          ELSE now() + make_interval(hours => LEAST(
+            p_backoff_max_hours::numeric,
+            p_backoff_base_hours * power(2::numeric, LEAST(s.consecutive_empty_runs, 16))
+          )::int)
+        END;
+END;
+$canada_record_seed_run$ LANGUAGE plpgsql;
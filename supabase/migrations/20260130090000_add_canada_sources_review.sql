@@ -0,0 +1,32 @@
+-- Canada module: review state for sources proposed by discovery (OPPORTUNISTIC), and
+-- search-query seeds (GOOGLE_SEED) must carry their query in seed_key
+
+ALTER TABLE canada_sources
+  ADD COLUMN IF NOT EXISTS review_status text NOT NULL DEFAULT 'APPROVED',
+  ADD COLUMN IF NOT EXISTS proposed_from text;
+
+DO $$ BEGIN
+  ALTER TABLE canada_sources
+    ADD CONSTRAINT canada_sources_review_status_check CHECK (review_status IN ('PENDING', 'APPROVED', 'REJECTED'));
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Pending and rejected candidates never run.
+DO $$ BEGIN
+  ALTER TABLE canada_sources
+    ADD CONSTRAINT canada_sources_active_requires_approval CHECK (NOT active OR review_status = 'APPROVED');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE canada_sources
+    ADD CONSTRAINT canada_sources_google_seed_query CHECK (
+      strategy <> 'GOOGLE_SEED' OR length(trim(coalesce(seed_key, ''))) > 0
+    );
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE INDEX IF NOT EXISTS canada_sources_review_status_idx ON canada_sources (review_status);
@@ -0,0 +1,88 @@
+-- Canada module: discover runs that span several cron invocations. A run keeps its
+-- source plan, a cursor into it and the frontiers of the sources in progress, so each
+-- invocation works until its time budget runs out and the next one resumes.
+
+CREATE TABLE IF NOT EXISTS canada_crawl_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- NULL: every program type
+  program_type canada_program_type,
+  mode text NOT NULL,
+  status text NOT NULL DEFAULT 'RUNNING',
+
+  -- [{ source_id, budget }] in crawl order, and the index of the next source to work on
+  plan jsonb NOT NULL DEFAULT '[]'::jsonb,
+  cursor int NOT NULL DEFAULT 0,
+  -- [{ source_id, budget, expand, queue, visited, requests, proposals, outcome }]:
+  -- one frontier per started source still in progress, which run side by side
+  frontier jsonb,
+  summary jsonb NOT NULL DEFAULT '{}'::jsonb,
+
+  invocations int NOT NULL DEFAULT 0,
+  consecutive_failures int NOT NULL DEFAULT 0,
+  last_error text,
+  -- Held by the invocation working on the run; an expired lease can be taken over.
+  locked_until timestamptz,
+
+  started_at timestamptz NOT NULL DEFAULT now(),
+  finished_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT canada_crawl_runs_mode_check CHECK (mode IN ('CRAWL', 'SITEMAP')),
+  CONSTRAINT canada_crawl_runs_status_check CHECK (status IN ('RUNNING', 'COMPLETED', 'FAILED')),
+  CONSTRAINT canada_crawl_runs_plan_array CHECK (jsonb_typeof(plan) = 'array'),
+  CONSTRAINT canada_crawl_runs_cursor_nonnegative CHECK (cursor >= 0)
+);
+
+-- At most one open run per scope and mode.
+CREATE UNIQUE INDEX IF NOT EXISTS canada_crawl_runs_open_unique
+  ON canada_crawl_runs (coalesce(program_type::text, '*'), mode)
+  WHERE status = 'RUNNING';
+
+CREATE INDEX IF NOT EXISTS canada_crawl_runs_started_idx ON canada_crawl_runs (started_at DESC);
+
+DROP TRIGGER IF EXISTS canada_crawl_runs_set_updated_at ON canada_crawl_runs;
+CREATE TRIGGER canada_crawl_runs_set_updated_at
+BEFORE UPDATE ON canada_crawl_runs
+FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+-- Takes the lease on the open run for a scope and mode, unless another invocation
+-- holds it. Returns the claimed run, or nothing when there is no open run or it is busy.
+CREATE OR REPLACE FUNCTION canada_claim_crawl_run(
+  p_program_type canada_program_type,
+  p_mode text,
+  p_lease_seconds int
+)
+RETURNS SETOF canada_crawl_runs AS $canada_claim_crawl_run$
+BEGIN
+  RETURN QUERY
+  UPDATE canada_crawl_runs r
+  SET locked_until = now() + make_interval(secs => p_lease_seconds),
+      invocations = r.invocations + 1
+  WHERE r.id = (
+    SELECT c.id
+    FROM canada_crawl_runs c
+    WHERE c.status = 'RUNNING'
+      AND c.program_type IS NOT DISTINCT FROM p_program_type
+      AND c.mode = p_mode
+      AND (c.locked_until IS NULL OR c.locked_until < now())
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING r.*;
+END;
+$canada_claim_crawl_run$ LANGUAGE plpgsql;
+
+ALTER TABLE canada_crawl_runs ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  CREATE POLICY "Service role full access: canada_crawl_runs"
+    ON canada_crawl_runs
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
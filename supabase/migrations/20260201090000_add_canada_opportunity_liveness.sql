@@ -0,0 +1,39 @@
+-- Canada module: retiring dead and closed postings. Verify counts consecutive failed
+-- checks and the current streak of one terminal signal (404, 410, a "position filled"
+-- or "no longer accepting" notice); a streak reaching its threshold moves the row to
+-- REMOVED or FILLED, and rows failing repeatedly drop out of the public list.
+
+ALTER TYPE canada_opportunity_status ADD VALUE IF NOT EXISTS 'REMOVED';
+ALTER TYPE canada_opportunity_status ADD VALUE IF NOT EXISTS 'FILLED';
+
+ALTER TABLE canada_opportunity
+  ADD COLUMN IF NOT EXISTS consecutive_failures int NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS terminal_signal text,
+  ADD COLUMN IF NOT EXISTS terminal_signal_count int NOT NULL DEFAULT 0;
+
+DO $$ BEGIN
+  ALTER TABLE canada_opportunity
+    ADD CONSTRAINT canada_opportunity_terminal_signal_check CHECK (
+      terminal_signal IS NULL OR terminal_signal IN ('http_404', 'http_410', 'position_filled', 'no_longer_accepting')
+    );
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE canada_opportunity
+    ADD CONSTRAINT canada_opportunity_liveness_counts_nonnegative CHECK (
+      consecutive_failures >= 0 AND terminal_signal_count >= 0
+    );
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Removed and filled primaries release their mirrors like expired ones. Compared as
+-- text: enum values added in this transaction cannot be used in it yet.
+DROP TRIGGER IF EXISTS canada_opportunity_release_duplicates ON canada_opportunity;
+CREATE TRIGGER canada_opportunity_release_duplicates
+AFTER UPDATE OF status ON canada_opportunity
+FOR EACH ROW
+WHEN (NEW.status::text IN ('EXPIRED', 'REMOVED', 'FILLED') AND OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION canada_release_duplicates();
@@ -0,0 +1,67 @@
+-- Canada module: bookmarks on opportunities, with a per-row count that verify uses to
+-- re-check postings students are watching sooner
+
+CREATE TABLE IF NOT EXISTS canada_opportunity_bookmarks (
+  user_id uuid NOT NULL,
+  opportunity_id uuid NOT NULL REFERENCES canada_opportunity(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, opportunity_id)
+);
+
+CREATE INDEX IF NOT EXISTS canada_opportunity_bookmarks_opportunity_idx
+  ON canada_opportunity_bookmarks (opportunity_id);
+
+ALTER TABLE canada_opportunity
+  ADD COLUMN IF NOT EXISTS bookmark_count int NOT NULL DEFAULT 0;
+
+DO $$ BEGIN
+  ALTER TABLE canada_opportunity
+    ADD CONSTRAINT canada_opportunity_bookmark_count_nonnegative CHECK (bookmark_count >= 0);
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE INDEX IF NOT EXISTS canada_opportunity_bookmark_count_idx
+  ON canada_opportunity (bookmark_count DESC)
+  WHERE bookmark_count > 0;
+
+CREATE OR REPLACE FUNCTION canada_count_bookmarks() RETURNS trigger AS $canada_count_bookmarks$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE canada_opportunity SET bookmark_count = bookmark_count + 1 WHERE id = NEW.opportunity_id;
+    RETURN NEW;
+  END IF;
+  UPDATE canada_opportunity SET bookmark_count = GREATEST(bookmark_count - 1, 0) WHERE id = OLD.opportunity_id;
+  RETURN OLD;
+END;
+$canada_count_bookmarks$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS canada_opportunity_bookmarks_count ON canada_opportunity_bookmarks;
+CREATE TRIGGER canada_opportunity_bookmarks_count
+AFTER INSERT OR DELETE ON canada_opportunity_bookmarks
+FOR EACH ROW
+EXECUTE FUNCTION canada_count_bookmarks();
+
+ALTER TABLE canada_opportunity_bookmarks ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  CREATE POLICY "Users manage own opportunity bookmarks"
+    ON canada_opportunity_bookmarks
+    FOR ALL
+    TO authenticated
+    USING (user_id = auth.uid())
+    WITH CHECK (user_id = auth.uid());
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  CREATE POLICY "Service role full access: canada_opportunity_bookmarks"
+    ON canada_opportunity_bookmarks
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
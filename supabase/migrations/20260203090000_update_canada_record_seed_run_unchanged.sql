@@ -0,0 +1,54 @@
+-- Canada module: a run that skipped sitemap pages because their lastmod had not changed
+-- is not empty. Those pages already produced postings, so the seed is not backed off.
+
+DROP FUNCTION IF EXISTS canada_record_seed_run(text, canada_program_type, canada_source_strategy, int, int, int, int, int, int);
+
+-- Adds one run's outcome to a seed's totals. A run that neither accepts anything nor
+-- skips an unchanged page pushes the seed's next run out by p_backoff_base_hours,
+-- doubling per consecutive empty run up to p_backoff_max_hours; any other run clears
+-- the backoff.
+CREATE OR REPLACE FUNCTION canada_record_seed_run(
+  p_seed_key text,
+  p_program_type canada_program_type,
+  p_strategy canada_source_strategy,
+  p_urls_found int,
+  p_accepted int,
+  p_blocked int,
+  p_expired int,
+  p_unchanged int,
+  p_backoff_base_hours int,
+  p_backoff_max_hours int
+)
+RETURNS void AS $canada_record_seed_run$
+DECLARE
+  v_empty boolean := p_accepted = 0 AND p_unchanged = 0;
+BEGIN
+  INSERT INTO canada_seed_stats AS s (
+    seed_key, program_type, strategy,
+    runs_count, urls_found, accepted, blocked, expired,
+    last_run_at, consecutive_empty_runs, next_run_at
+  )
+  VALUES (
+    p_seed_key, p_program_type, p_strategy,
+    1, p_urls_found, p_accepted, p_blocked, p_expired,
+    now(),
+    CASE WHEN v_empty THEN 1 ELSE 0 END,
+    CASE WHEN v_empty THEN now() + make_interval(hours => p_backoff_base_hours) ELSE NULL END
+  )
+  ON CONFLICT (seed_key, program_type, strategy) DO UPDATE
+    SET runs_count = s.runs_count + 1,
+        urls_found = s.urls_found + p_urls_found,
+        accepted = s.accepted + p_accepted,
+        blocked = s.blocked + p_blocked,
+        expired = s.expired + p_expired,
+        last_run_at = now(),
+        consecutive_empty_runs = CASE WHEN v_empty THEN s.consecutive_empty_runs + 1 ELSE 0 END,
+        next_run_at = CASE
+          WHEN NOT v_empty THEN NULL
+          ELSE now() + make_interval(hours => LEAST(
+            p_backoff_max_hours::numeric,
+            p_backoff_base_hours * power(2::numeric, LEAST(s.consecutive_empty_runs, 16))
+          )::int)
+        END;
+END;
+$canada_record_seed_run$ LANGUAGE plpgsql;
@@ -0,0 +1,30 @@
+-- Canada module: applies per-row column patches to opportunities in one call, so verify
+-- can batch its updates without writing back columns it did not change
+
+-- Each element of p_patches is {"id": uuid, "patch": {column: value, ...}}. Only the
+-- columns named in a patch are set, so values other writers stored meanwhile stay. A
+-- patch that fails is returned with its error and does not stop the others.
+CREATE OR REPLACE FUNCTION canada_patch_opportunities(p_patches jsonb)
+RETURNS TABLE (id uuid, error text) AS $canada_patch_opportunities$
+DECLARE
+  v_item jsonb;
+  v_set text;
+BEGIN
+  FOR v_item IN SELECT value FROM jsonb_array_elements(p_patches) LOOP
+    id := (v_item->>'id')::uuid;
+    error := NULL;
+    SELECT string_agg(format('%1$I = (jsonb_populate_record(o, $1)).%1$I', k), ', ')
+      INTO v_set
+      FROM jsonb_object_keys(v_item->'patch') AS k;
+    IF v_set IS NOT NULL THEN
+      BEGIN
+        EXECUTE format('UPDATE canada_opportunity AS o SET %s WHERE o.id = $2', v_set)
+          USING v_item->'patch', id;
+      EXCEPTION
+        WHEN OTHERS THEN error := SQLERRM;
+      END;
+    END IF;
+    RETURN NEXT;
+  END LOOP;
+END;
+$canada_patch_opportunities$ LANGUAGE plpgsql;
@@ -0,0 +1,4 @@
+-- Canada module: a fetch not sent because its host was still backing off is logged as
+-- DEFERRED, not BLOCKED, so it is no verdict on the page
+
+ALTER TYPE canada_fetch_status ADD VALUE IF NOT EXISTS 'DEFERRED';